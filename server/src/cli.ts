@@ -0,0 +1,158 @@
+import { writeFileSync } from 'fs';
+import { pool } from './db/connection.js';
+import { SYNC_STAGES, SyncStage, syncAllData } from './services/syncService.js';
+import { formatCounts } from './services/changeDetection.js';
+import { waitForWebhooks } from './services/webhooks.js';
+import { checkIntegrity, getDatasetStats, purgeRetired } from './services/maintenance.js';
+import { exportSnapshot, encodeSnapshot, readSnapshotFile, importSnapshot } from './services/snapshot.js';
+
+const USAGE = `Usage:
+  cli sync [stage] [--mode full] [--no-resume]    run the full sync, or refresh one stage: ${SYNC_STAGES.join(', ')}
+  cli check                                       check relationship and reference integrity (exits 1 on problems)
+  cli stats                                       print dataset statistics
+  cli export <file>                               write a dataset snapshot (gzipped JSON)
+  cli import <file> [--replace]                   load a dataset snapshot; --replace overwrites an existing dataset
+  cli purge-retired [--before <date>] [--dry-run] delete retired groups, categories and achievements`;
+
+// Positional arguments and flags; a flag followed by a non-flag takes it as its value
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+    } else if (['--mode', '--before'].includes(arg)) {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      flags.set(arg, value);
+    } else {
+      flags.set(arg, true);
+    }
+  }
+  return { command: positional[0], args: positional.slice(1), flags };
+}
+
+async function runSyncCommand(args: string[], flags: Map<string, string | true>) {
+  const stage = args[0] as SyncStage | undefined;
+  if (stage !== undefined && !SYNC_STAGES.includes(stage)) {
+    throw new Error(`Unknown stage '${stage}'. Use one of: ${SYNC_STAGES.join(', ')}`);
+  }
+  const mode = flags.get('--mode') === 'full' ? 'full' : 'incremental';
+
+  // A failed sync queues sync.failed deliveries too, so wait for them before the process exits
+  try {
+    const summary = await syncAllData({ trigger: 'cli', mode, stage, resume: !flags.has('--no-resume') });
+    const entities = ['groups', 'categories', 'achievements', 'items', 'titles', 'skins', 'minis', 'translations'] as const;
+    for (const entity of entities) {
+      console.log(`  ${entity.padEnd(12)} ${formatCounts(summary[entity])}`);
+    }
+    const rejects = Object.entries(summary.rejects).filter(([, count]) => count > 0);
+    console.log(`  ${'rejected'.padEnd(12)} ${rejects.map(([entity, count]) => `${entity} ${count}`).join(', ') || 'none'}`);
+    console.log(`Sync run ${summary.runId} finished in ${(summary.durationMs / 1000).toFixed(2)}s`);
+  } finally {
+    await waitForWebhooks();
+  }
+}
+
+async function runCheckCommand(): Promise<boolean> {
+  const issues = await checkIntegrity();
+  if (issues.length === 0) {
+    console.log('No integrity problems found');
+    return true;
+  }
+  for (const issue of issues) {
+    const more = issue.count > issue.sample.length ? ', ...' : '';
+    console.log(`${issue.check}: ${issue.count} - ${issue.description}`);
+    console.log(`  ${issue.sample.join(', ')}${more}`);
+  }
+  return false;
+}
+
+async function runStatsCommand() {
+  const stats = await getDatasetStats();
+  for (const [table, counts] of Object.entries(stats.tables)) {
+    const retired = counts.retired !== null ? ` (${counts.retired} retired)` : '';
+    console.log(`${table.padEnd(24)} ${counts.total}${retired}`);
+  }
+  console.log(`${'group_categories'.padEnd(24)} ${stats.relationships.groupCategories}`);
+  console.log(`${'category_achievements'.padEnd(24)} ${stats.relationships.categoryAchievements}`);
+  const translations = Object.entries(stats.translations).map(([lang, count]) => `${lang} ${count}`);
+  console.log(`${'translations'.padEnd(24)} ${translations.join(', ') || 'none'}`);
+  console.log(`${'achievement_history'.padEnd(24)} ${stats.historyVersions}`);
+
+  const run = stats.lastSync;
+  if (run) {
+    const stage = run.stage ? ` ${run.stage}` : '';
+    console.log(`Last sync: run ${run.id} (${run.trigger}, ${run.mode}${stage}) ${run.status} at ${new Date(run.started_at).toISOString()}`);
+  } else {
+    console.log('Last sync: never');
+  }
+}
+
+async function runExportCommand(args: string[]) {
+  const file = args[0];
+  if (!file) throw new Error('export needs a file path');
+  const snapshot = await exportSnapshot();
+  writeFileSync(file, encodeSnapshot(snapshot));
+  const rows = Object.values(snapshot.header.counts).reduce((acc, n) => acc + n, 0);
+  console.log(`Wrote snapshot of ${rows} rows to ${file}`);
+}
+
+async function runImportCommand(args: string[], flags: Map<string, string | true>) {
+  const file = args[0];
+  if (!file) throw new Error('import needs a file path');
+  const snapshot = readSnapshotFile(file);
+  console.log(`Importing snapshot taken ${snapshot.header.created_at}...`);
+  const counts = await importSnapshot(snapshot, { replace: flags.has('--replace') });
+  for (const [table, count] of Object.entries(counts)) {
+    console.log(`  ${table.padEnd(24)} ${count}`);
+  }
+}
+
+async function runPurgeCommand(flags: Map<string, string | true>) {
+  const beforeFlag = flags.get('--before');
+  let before: Date | undefined;
+  if (typeof beforeFlag === 'string') {
+    before = new Date(beforeFlag);
+    if (isNaN(before.getTime())) throw new Error('--before needs a date, e.g. 2025-01-01');
+  }
+  const dryRun = flags.has('--dry-run');
+  const result = await purgeRetired({ before, dryRun });
+  console.log(
+    `${dryRun ? 'Would purge' : 'Purged'} ${result.groups} groups, ${result.categories} categories, ` +
+    `${result.achievements} achievements and ${result.translations} translations`
+  );
+}
+
+async function main() {
+  let exitCode = 0;
+  try {
+    const { command, args, flags } = parseArgs(process.argv.slice(2));
+
+    if (command === 'sync') {
+      await runSyncCommand(args, flags);
+    } else if (command === 'check') {
+      if (!(await runCheckCommand())) exitCode = 1;
+    } else if (command === 'stats') {
+      await runStatsCommand();
+    } else if (command === 'export') {
+      await runExportCommand(args);
+    } else if (command === 'import') {
+      await runImportCommand(args, flags);
+    } else if (command === 'purge-retired') {
+      await runPurgeCommand(flags);
+    } else {
+      console.log(USAGE);
+      exitCode = command === undefined || command === 'help' ? 0 : 1;
+    }
+
+    await pool.end();
+  } catch (error) {
+    console.error('Command failed:', error instanceof Error ? error.message : error);
+    exitCode = 1;
+  }
+  process.exit(exitCode);
+}
+
+main();
@@ -1,30 +1,45 @@
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
 import { pool } from './connection.js';
+import { migrateUp, migrateDown, getMigrationStatus } from './migrator.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+// Usage:
+//   migrate [up] [--to <version>] [--dry-run]    apply pending migrations
+//   migrate down [--to <version>] [--dry-run]    roll back the latest migration, or every one above --to
+//   migrate status                               list migrations and whether they are applied
+function parseArgs(argv: string[]) {
+  const command = argv[0] && !argv[0].startsWith('--') ? argv[0] : 'up';
+  const dryRun = argv.includes('--dry-run');
+  const toIndex = argv.indexOf('--to');
+  let to: number | undefined;
+  if (toIndex !== -1) {
+    to = parseInt(argv[toIndex + 1]);
+    if (isNaN(to)) {
+      throw new Error('--to needs a migration version');
+    }
+  }
+  return { command, dryRun, to };
+}
 
 async function migrate() {
   try {
-    console.log('Running database migrations...');
-    
-    const schema = readFileSync(join(__dirname, 'schema.sql'), 'utf-8');
-    
-    // Split by semicolons and execute each statement
-    const statements = schema
-      .split(';')
-      .map(s => s.trim())
-      .filter(s => s.length > 0 && !s.startsWith('--'));
-    
-    for (const statement of statements) {
-      if (statement) {
-        await pool.query(statement);
+    const { command, dryRun, to } = parseArgs(process.argv.slice(2));
+
+    if (command === 'up') {
+      console.log('Running database migrations...');
+      const applied = await migrateUp({ dryRun, to });
+      console.log(`${dryRun ? 'Would apply' : 'Applied'} ${applied.length} migration(s)`);
+    } else if (command === 'down') {
+      const rolledBack = await migrateDown({ dryRun, to });
+      console.log(`${dryRun ? 'Would roll back' : 'Rolled back'} ${rolledBack.length} migration(s)`);
+    } else if (command === 'status') {
+      for (const migration of await getMigrationStatus()) {
+        const appliedAt = migration.applied_at ? ` (${new Date(migration.applied_at).toISOString()})` : '';
+        console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}: ${migration.state}${appliedAt}`);
       }
+    } else {
+      throw new Error(`Unknown command '${command}'. Use up, down or status`);
     }
-    
-    console.log('Database migrations completed successfully!');
+
+    await pool.end();
     process.exit(0);
   } catch (error) {
     console.error('Migration failed:', error);
@@ -33,4 +48,3 @@ async function migrate() {
 }
 
 migrate();
-
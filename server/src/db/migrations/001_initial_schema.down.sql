@@ -0,0 +1,8 @@
+DROP TABLE IF EXISTS titles;
+DROP TABLE IF EXISTS items;
+DROP TABLE IF EXISTS category_achievements;
+DROP TABLE IF EXISTS achievements;
+DROP TABLE IF EXISTS group_categories;
+DROP TABLE IF EXISTS achievement_categories;
+DROP TABLE IF EXISTS achievement_groups;
+DROP FUNCTION IF EXISTS update_updated_at_column();
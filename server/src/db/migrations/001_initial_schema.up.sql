@@ -43,6 +43,9 @@ CREATE TABLE IF NOT EXISTS achievements (
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Databases created before prerequisites were tracked lack the column
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS prerequisites JSONB;
+
 -- Category-Achievement Junction Table
 CREATE TABLE IF NOT EXISTS category_achievements (
   category_id INTEGER REFERENCES achievement_categories(id) ON DELETE CASCADE,
@@ -56,20 +59,6 @@ CREATE INDEX IF NOT EXISTS idx_category_achievements_achievement ON category_ach
 CREATE INDEX IF NOT EXISTS idx_group_categories_group ON group_categories(group_id);
 CREATE INDEX IF NOT EXISTS idx_achievements_type ON achievements(type);
 CREATE INDEX IF NOT EXISTS idx_achievements_flags ON achievements USING GIN(flags);
-
--- Add prerequisites column if it doesn't exist (for existing databases)
-DO $$ 
-BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM information_schema.columns 
-    WHERE table_name = 'achievements' AND column_name = 'prerequisites'
-  ) THEN
-    ALTER TABLE achievements ADD COLUMN prerequisites JSONB;
-    CREATE INDEX IF NOT EXISTS idx_achievements_prerequisites ON achievements USING GIN(prerequisites);
-  END IF;
-END $$;
-
--- Ensure index exists (in case column was added but index wasn't)
 CREATE INDEX IF NOT EXISTS idx_achievements_prerequisites ON achievements USING GIN(prerequisites);
 
 -- Items Table (for items referenced by achievement rewards)
@@ -99,30 +88,6 @@ CREATE TABLE IF NOT EXISTS titles (
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Add titles table migration if it doesn't exist
-DO $$ 
-BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM information_schema.columns 
-    WHERE table_name = 'titles'
-  ) THEN
-    -- Table creation is handled above, this is just for safety
-    NULL;
-  END IF;
-END $$;
-
--- Add items column migration if it doesn't exist
-DO $$ 
-BEGIN
-  IF NOT EXISTS (
-    SELECT 1 FROM information_schema.columns 
-    WHERE table_name = 'items'
-  ) THEN
-    -- Table creation is handled above, this is just for safety
-    NULL;
-  END IF;
-END $$;
-
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -133,15 +98,14 @@ END;
 $$ language 'plpgsql';
 
 -- Triggers to auto-update updated_at
-CREATE TRIGGER update_achievement_groups_updated_at BEFORE UPDATE ON achievement_groups
+CREATE OR REPLACE TRIGGER update_achievement_groups_updated_at BEFORE UPDATE ON achievement_groups
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_achievement_categories_updated_at BEFORE UPDATE ON achievement_categories
+CREATE OR REPLACE TRIGGER update_achievement_categories_updated_at BEFORE UPDATE ON achievement_categories
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_achievements_updated_at BEFORE UPDATE ON achievements
+CREATE OR REPLACE TRIGGER update_achievements_updated_at BEFORE UPDATE ON achievements
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
-CREATE TRIGGER update_items_updated_at BEFORE UPDATE ON items
+CREATE OR REPLACE TRIGGER update_items_updated_at BEFORE UPDATE ON items
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-
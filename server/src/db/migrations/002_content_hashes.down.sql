@@ -0,0 +1,5 @@
+ALTER TABLE titles DROP COLUMN IF EXISTS content_hash;
+ALTER TABLE items DROP COLUMN IF EXISTS content_hash;
+ALTER TABLE achievements DROP COLUMN IF EXISTS content_hash;
+ALTER TABLE achievement_categories DROP COLUMN IF EXISTS content_hash;
+ALTER TABLE achievement_groups DROP COLUMN IF EXISTS content_hash;
@@ -0,0 +1,6 @@
+-- Content hashes of the upstream records, used by incremental sync to skip unchanged rows
+ALTER TABLE achievement_groups ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE achievement_categories ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE items ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE titles ADD COLUMN IF NOT EXISTS content_hash TEXT;
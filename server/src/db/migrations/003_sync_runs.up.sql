@@ -0,0 +1,14 @@
+-- Sync Runs Table (history of data synchronizations)
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id SERIAL PRIMARY KEY,
+  trigger TEXT NOT NULL, -- 'cron', 'startup' or 'manual'
+  mode TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'succeeded' or 'failed'
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ name, status, durationMs }]
+  counts JSONB,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at DESC);
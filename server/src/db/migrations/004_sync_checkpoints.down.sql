@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS sync_checkpoints;
+ALTER TABLE sync_runs DROP COLUMN IF EXISTS resumed_from;
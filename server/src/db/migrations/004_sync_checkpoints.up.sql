@@ -0,0 +1,12 @@
+-- Run this one resumed from, when it reused the checkpoints of a failed run
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS resumed_from INTEGER REFERENCES sync_runs(id) ON DELETE SET NULL;
+
+-- Sync Checkpoints Table (fetched data per step / 200-ID chunk, so a failed sync can resume)
+CREATE TABLE IF NOT EXISTS sync_checkpoints (
+  run_id INTEGER REFERENCES sync_runs(id) ON DELETE CASCADE,
+  step TEXT NOT NULL,
+  chunk_key TEXT NOT NULL, -- hash of the chunk's IDs, or '*' for a whole step
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (run_id, step, chunk_key)
+);
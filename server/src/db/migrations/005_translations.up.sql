@@ -0,0 +1,13 @@
+-- Translations Table (non-English text of synced entities; the base tables hold English)
+CREATE TABLE IF NOT EXISTS translations (
+  entity_type TEXT NOT NULL, -- 'group', 'category', 'achievement', 'item', 'title', 'skin' or 'mini'
+  entity_id TEXT NOT NULL,
+  lang TEXT NOT NULL, -- 'de', 'fr', 'es' or 'zh'
+  fields JSONB NOT NULL, -- translated text fields, e.g. { "name": ..., "description": ... }
+  content_hash TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (entity_type, entity_id, lang)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translations_lang ON translations(lang, entity_type);
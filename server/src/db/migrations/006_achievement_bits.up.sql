@@ -0,0 +1,5 @@
+-- Collection steps: Item, Skin, Minipet and Text entries
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS bits JSONB;
+
+-- Clear stored hashes so the next incremental sync rewrites every achievement with its bits
+UPDATE achievements SET content_hash = NULL;
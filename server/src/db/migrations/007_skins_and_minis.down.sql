@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS minis;
+DROP TABLE IF EXISTS skins;
+DELETE FROM translations WHERE entity_type IN ('skin', 'mini');
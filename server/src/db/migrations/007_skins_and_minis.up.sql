@@ -0,0 +1,38 @@
+-- Skins Table (for skins referenced by achievement rewards and collection bits)
+CREATE TABLE IF NOT EXISTS skins (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT,
+  rarity TEXT,
+  icon TEXT,
+  flags TEXT[],
+  restrictions TEXT[],
+  details JSONB,
+  content_hash TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_skins_type ON skins(type);
+CREATE INDEX IF NOT EXISTS idx_skins_rarity ON skins(rarity);
+
+-- Minis Table (for miniatures referenced by achievement rewards and collection bits)
+CREATE TABLE IF NOT EXISTS minis (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  unlock TEXT,
+  icon TEXT,
+  "order" INTEGER,
+  item_id INTEGER, -- item that unlocks the mini
+  rarity TEXT, -- rarity of that item
+  content_hash TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE TRIGGER update_skins_updated_at BEFORE UPDATE ON skins
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE TRIGGER update_minis_updated_at BEFORE UPDATE ON minis
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,5 @@
+-- AP cap of Repeatable achievements
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS point_cap INTEGER;
+
+-- Clear stored hashes so the next incremental sync fills it in
+UPDATE achievements SET content_hash = NULL;
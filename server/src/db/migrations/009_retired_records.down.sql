@@ -0,0 +1,3 @@
+ALTER TABLE achievements DROP COLUMN IF EXISTS retired_at;
+ALTER TABLE achievement_categories DROP COLUMN IF EXISTS retired_at;
+ALTER TABLE achievement_groups DROP COLUMN IF EXISTS retired_at;
@@ -0,0 +1,5 @@
+-- When a group, category or achievement disappeared from the GW2 API (NULL while it is live).
+-- Retired rows are kept, and hidden by the API unless ?includeRetired=true
+ALTER TABLE achievement_groups ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
+ALTER TABLE achievement_categories ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP;
@@ -0,0 +1,13 @@
+-- Achievement History Table (one version per achievement per change seen by a sync)
+CREATE TABLE IF NOT EXISTS achievement_history (
+  achievement_id INTEGER NOT NULL,
+  version INTEGER NOT NULL,
+  change_type TEXT NOT NULL, -- 'added', 'changed', 'retired' or 'restored'
+  content JSONB NOT NULL, -- tracked fields as of this version
+  diff JSONB, -- { field: { from, to } } against the previous version, for 'changed'
+  run_id INTEGER REFERENCES sync_runs(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (achievement_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_history_changed_at ON achievement_history(changed_at);
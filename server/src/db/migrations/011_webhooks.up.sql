@@ -0,0 +1,33 @@
+-- Webhooks Table (outbound subscriptions to sync results)
+CREATE TABLE IF NOT EXISTS webhooks (
+  id SERIAL PRIMARY KEY,
+  url TEXT NOT NULL,
+  format TEXT NOT NULL DEFAULT 'json', -- 'json' or 'discord'
+  events TEXT[] NOT NULL, -- 'sync.succeeded', 'sync.failed', 'achievements.added'
+  secret TEXT, -- HMAC-SHA256 key for the X-Pathfinder-Signature header
+  min_new_achievements INTEGER NOT NULL DEFAULT 1, -- threshold for 'achievements.added'
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE TRIGGER update_webhooks_updated_at BEFORE UPDATE ON webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Webhook Deliveries Table (one row per event sent to a webhook, with its latest attempt)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id SERIAL PRIMARY KEY,
+  webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  run_id INTEGER REFERENCES sync_runs(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'succeeded' or 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  error TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
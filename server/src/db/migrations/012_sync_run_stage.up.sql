@@ -0,0 +1,2 @@
+-- Entity type refreshed by a single-stage sync (NULL for a full sync)
+ALTER TABLE sync_runs ADD COLUMN IF NOT EXISTS stage TEXT;
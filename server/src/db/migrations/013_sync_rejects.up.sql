@@ -0,0 +1,13 @@
+-- Sync Rejects Table (GW2 API records that failed validation and were left out of a sync)
+CREATE TABLE IF NOT EXISTS sync_rejects (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER REFERENCES sync_runs(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL, -- 'groups', 'categories', 'achievements', 'items', 'titles', 'skins' or 'minis'
+  entity_id TEXT, -- NULL when the record has no usable ID
+  lang TEXT NOT NULL DEFAULT 'en',
+  reason TEXT NOT NULL,
+  payload JSONB, -- the record as the API returned it
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_rejects_run_id ON sync_rejects(run_id);
@@ -0,0 +1,257 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { PoolClient } from 'pg';
+import { pool } from './connection.js';
+
+// Versioned schema migrations.
+// Each migration is a pair of files in db/migrations: NNN_name.up.sql and NNN_name.down.sql.
+// Applied migrations are recorded in schema_migrations with a checksum of their up file,
+// so an edited migration is caught instead of silently diverging from the database.
+
+const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), 'migrations');
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+// Held while migrating, so replicas starting together do not migrate at the same time
+const MIGRATION_LOCK_NAME = 'gw2-pathfinder:migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  applied_at: string | null;
+}
+
+export interface MigrateOptions {
+  // Report what would run without touching the database
+  dryRun?: boolean;
+  // up: apply up to and including this version. down: roll back to (but not including) it
+  to?: number;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+function checksum(sql: string): string {
+  // Normalize line endings so a checkout with CRLF does not look like an edit
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of readdirSync(dir)) {
+    const match = file.match(MIGRATION_FILE);
+    if (!match) continue;
+
+    const version = parseInt(match[1]);
+    const [, , name, direction] = match;
+    const entry = byVersion.get(version) || { name };
+    if (entry.name !== name) {
+      throw new MigrationError(`Migration ${version} has two names: ${entry.name} and ${name}`);
+    }
+    entry[direction as 'up' | 'down'] = readFileSync(join(dir, file), 'utf-8');
+    byVersion.set(version, entry);
+  }
+
+  return Array.from(byVersion.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) {
+        throw new MigrationError(`Migration ${version}_${entry.name} has no up file`);
+      }
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down ?? null,
+        checksum: checksum(entry.up),
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version INTEGER PRIMARY KEY,
+       name TEXT NOT NULL,
+       checksum TEXT NOT NULL,
+       applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+     )`
+  );
+}
+
+async function loadApplied(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query(
+    `SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`
+  );
+  return result.rows;
+}
+
+// Run fn on a dedicated connection holding the migration lock
+async function withMigrationLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock(hashtext($1))`, [MIGRATION_LOCK_NAME]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [MIGRATION_LOCK_NAME]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+function compare(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(a => [a.version, a]));
+  const statuses: MigrationStatus[] = migrations.map(m => {
+    const record = appliedByVersion.get(m.version);
+    if (!record) return { version: m.version, name: m.name, state: 'pending', applied_at: null };
+    return {
+      version: m.version,
+      name: m.name,
+      state: record.checksum === m.checksum ? 'applied' : 'changed',
+      applied_at: record.applied_at,
+    };
+  });
+
+  const known = new Set(migrations.map(m => m.version));
+  for (const record of applied) {
+    if (!known.has(record.version)) {
+      statuses.push({ version: record.version, name: record.name, state: 'missing', applied_at: record.applied_at });
+    }
+  }
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+// Refuse to migrate a database whose history does not match the migration files
+function assertConsistent(statuses: MigrationStatus[]): void {
+  const changed = statuses.filter(s => s.state === 'changed');
+  if (changed.length > 0) {
+    throw new MigrationError(
+      `Applied migrations were edited since they ran: ${changed.map(s => `${s.version}_${s.name}`).join(', ')}. ` +
+      'Add a new migration instead of changing an applied one'
+    );
+  }
+  const missing = statuses.filter(s => s.state === 'missing');
+  if (missing.length > 0) {
+    throw new MigrationError(
+      `Applied migrations have no file: ${missing.map(s => `${s.version}_${s.name}`).join(', ')}`
+    );
+  }
+}
+
+async function runInTransaction(client: PoolClient, sql: string, record: () => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  return withMigrationLock(async client => compare(migrations, await loadApplied(client)));
+}
+
+// Apply pending migrations in order, each in its own transaction. Returns the versions applied
+// (or, in a dry run, the versions that would be).
+export async function migrateUp(options: MigrateOptions = {}): Promise<number[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async client => {
+    const statuses = compare(migrations, await loadApplied(client));
+    assertConsistent(statuses);
+
+    const pendingVersions = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+    const pending = migrations.filter(
+      m => pendingVersions.has(m.version) && (options.to === undefined || m.version <= options.to)
+    );
+    if (pending.length === 0) {
+      console.log('Database schema is up to date');
+      return [];
+    }
+
+    for (const migration of pending) {
+      if (options.dryRun) {
+        console.log(`[dry run] Would apply migration ${migration.version}_${migration.name}`);
+        continue;
+      }
+      const start = Date.now();
+      await runInTransaction(client, migration.up, async () => {
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`,
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+      console.log(`Applied migration ${migration.version}_${migration.name} (${Date.now() - start}ms)`);
+    }
+
+    return pending.map(m => m.version);
+  });
+}
+
+// Roll back applied migrations, newest first: the latest one by default, or every one
+// above options.to. Returns the versions rolled back (or, in a dry run, that would be).
+export async function migrateDown(options: MigrateOptions = {}): Promise<number[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async client => {
+    const statuses = compare(migrations, await loadApplied(client));
+    assertConsistent(statuses);
+
+    const { to } = options;
+    const applied = migrations.filter(m => statuses.some(s => s.version === m.version && s.state === 'applied'));
+    const newestFirst = applied.reverse();
+    const targets = to === undefined ? newestFirst.slice(0, 1) : newestFirst.filter(m => m.version > to);
+    if (targets.length === 0) {
+      console.log('No migrations to roll back');
+      return [];
+    }
+
+    // Check every down file exists before rolling anything back
+    const withoutDown = targets.find(m => m.down === null);
+    if (withoutDown) {
+      throw new MigrationError(`Migration ${withoutDown.version}_${withoutDown.name} has no down file`);
+    }
+
+    for (const migration of targets) {
+      if (options.dryRun) {
+        console.log(`[dry run] Would roll back migration ${migration.version}_${migration.name}`);
+        continue;
+      }
+      await runInTransaction(client, migration.down || '', async () => {
+        await client.query(`DELETE FROM schema_migrations WHERE version = $1`, [migration.version]);
+      });
+      console.log(`Rolled back migration ${migration.version}_${migration.name}`);
+    }
+
+    return targets.map(m => m.version);
+  });
+}
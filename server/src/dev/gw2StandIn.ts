@@ -0,0 +1,149 @@
+import express, { Request, Response } from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+dotenv.config();
+
+// Local stand-in for the GW2 API, for development and reproducible syncs without the live API.
+//
+// Replay mode (default) answers from JSON fixtures on disk. Record mode forwards every request
+// to the real API and saves what comes back as fixtures. Point the backend at it with
+// GW2_API_BASE=http://localhost:3002/v2; the frontend's account requests follow, since they go
+// through the backend.
+//
+// Fixture layout, under GW2_STANDIN_FIXTURES:
+//   <lang>/<path>.json         one response, e.g. en/achievements.json (the ID list) or
+//                              en/achievements/groups/<guid>.json
+//   <lang>/<path>/<id>.json    ?ids= requests are assembled from the per-record files,
+//                              e.g. en/achievements/1.json
+//   accounts/<key>/<path>.json authenticated endpoints, e.g. accounts/default/account/achievements.json.
+//                              <key> is a hash of the API key (keys never reach the disk);
+//                              accounts/default answers for any key without fixtures of its own
+//
+// Usage: gw2StandIn [--record]
+
+const UPSTREAM = (process.env.GW2_STANDIN_UPSTREAM || 'https://api.guildwars2.com/v2').replace(/\/$/, '');
+const FIXTURES_DIR = resolve(process.env.GW2_STANDIN_FIXTURES || 'fixtures/gw2-api');
+const PORT = parseInt(process.env.GW2_STANDIN_PORT || '3002');
+const RECORD = process.argv.includes('--record') || process.env.GW2_STANDIN_MODE === 'record';
+
+// Path segments and IDs become file names, so only allow what GW2 IDs look like
+const SAFE_SEGMENT = /^[\w-]+$/;
+
+interface FixtureRequest {
+  // Path below /v2, split into segments, e.g. ['achievements', 'groups']
+  segments: string[];
+  lang: string;
+  ids: string[] | null;
+  // Hash of the API key, for authenticated requests
+  account: string | null;
+}
+
+class BadRequestError extends Error {}
+
+function parseRequest(req: Request): FixtureRequest {
+  const segments = req.path.replace(/^\/v2/, '').split('/').filter(Boolean);
+  const lang = typeof req.query.lang === 'string' ? req.query.lang : 'en';
+  const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : null;
+  if (![...segments, lang, ...(ids || [])].every(part => SAFE_SEGMENT.test(part))) {
+    throw new BadRequestError('Unsupported characters in path, lang or ids');
+  }
+
+  const bearer = req.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const token = typeof req.query.access_token === 'string' ? req.query.access_token : bearer;
+  const account = token ? createHash('sha256').update(token).digest('hex').slice(0, 16) : null;
+
+  return { segments, lang, ids, account };
+}
+
+// Directories a request's fixtures are looked up in, most specific first
+function fixtureRoots(request: FixtureRequest): string[] {
+  if (request.account) {
+    return [join(FIXTURES_DIR, 'accounts', request.account), join(FIXTURES_DIR, 'accounts', 'default')];
+  }
+  return [join(FIXTURES_DIR, request.lang)];
+}
+
+function readJson(file: string): unknown {
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : undefined;
+}
+
+function writeJson(file: string, data: unknown) {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+// Answer like the API: every ID found is 200, some is 206, none is 404
+function replayBulk(request: FixtureRequest, res: Response) {
+  const [root] = fixtureRoots(request);
+  const records = (request.ids || [])
+    .map(id => readJson(join(root, ...request.segments, `${id}.json`)))
+    .filter(record => record !== undefined);
+
+  if (records.length === 0) {
+    return res.status(404).json({ text: 'all ids provided are invalid' });
+  }
+  res.status(records.length < (request.ids || []).length ? 206 : 200).json(records);
+}
+
+function replay(request: FixtureRequest, res: Response) {
+  if (request.ids) return replayBulk(request, res);
+
+  for (const root of fixtureRoots(request)) {
+    const data = readJson(`${join(root, ...request.segments)}.json`);
+    if (data !== undefined) return res.json(data);
+  }
+  res.status(404).json({ text: `no fixture for /${request.segments.join('/')}` });
+}
+
+// Forward a request upstream and save a successful answer as fixtures
+async function record(req: Request, request: FixtureRequest, res: Response) {
+  const upstream = await fetch(`${UPSTREAM}${req.url.replace(/^\/v2/, '')}`, {
+    headers: req.get('authorization') ? { Authorization: req.get('authorization') as string } : undefined,
+  });
+  const body = await upstream.text();
+  res.status(upstream.status).type('application/json').send(body);
+  if (!upstream.ok) return;
+
+  const data = JSON.parse(body);
+  const [root] = fixtureRoots(request);
+  const base = join(root, ...request.segments);
+  if (request.ids && Array.isArray(data)) {
+    for (const record of data) {
+      if (record && SAFE_SEGMENT.test(String(record.id))) writeJson(join(base, `${record.id}.json`), record);
+    }
+  } else {
+    writeJson(`${base}.json`, data);
+  }
+  console.log(`Recorded ${req.path}${request.ids ? ` (${request.ids.length} ids)` : ''}`);
+}
+
+const app = express();
+app.use(cors());
+
+app.get('/v2/*', async (req, res) => {
+  try {
+    const request = parseRequest(req);
+    if (RECORD) {
+      await record(req, request, res);
+    } else {
+      replay(request, res);
+    }
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return res.status(400).json({ text: error.message });
+    }
+    console.error(`Stand-in failed to answer ${req.url}:`, error);
+    if (!res.headersSent) res.status(502).json({ text: 'stand-in error' });
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(
+    `GW2 API stand-in ${RECORD ? `recording from ${UPSTREAM}` : 'replaying'} fixtures in ${FIXTURES_DIR}, ` +
+    `at http://localhost:${PORT}/v2`
+  );
+});
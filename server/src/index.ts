@@ -4,126 +4,37 @@ import dotenv from 'dotenv';
 import cron from 'node-cron';
 import apiRoutes from './routes/api.js';
 import { syncAllData } from './services/syncService.js';
+import { SyncAlreadyRunningError } from './services/syncLock.js';
+import { gw2Client } from './services/gw2Client.js';
 import { waitForDatabase } from './db/waitForDb.js';
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
+import { migrateUp } from './db/migrator.js';
 import { pool } from './db/connection.js';
+import { SnapshotError, readSnapshotFile, importSnapshot } from './services/snapshot.js';
 
 dotenv.config();
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Account progress posted to /api/account/points runs to several hundred KB
+app.use(express.json({ limit: '5mb' }));
 
 // Routes
 app.use('/api', apiRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({ status: 'ok', timestamp: new Date().toISOString(), gw2Api: gw2Client.status() });
 });
 
 // Run database migrations
 async function runMigrations() {
   try {
     console.log('Running database migrations...');
-    const schema = readFileSync(join(__dirname, 'db', 'schema.sql'), 'utf-8');
-    
-    // Execute the entire schema as one transaction
-    // This handles dollar-quoted strings and multi-statement blocks properly
-    try {
-      await pool.query(schema);
-      console.log('Database schema created successfully');
-    } catch (error: any) {
-      // If it fails, try executing statement by statement (for partial migrations)
-      const errorMsg = error.message || String(error);
-      const errorCode = error.code || '';
-      
-      if (errorCode === '42P07' || // relation already exists
-          errorCode === '42710' || // duplicate object
-          errorMsg.includes('already exists') || 
-          errorMsg.includes('duplicate')) {
-        console.log('Schema objects already exist, skipping migration');
-      } else {
-        console.warn('Full schema execution failed, trying statement-by-statement:', errorMsg);
-        // Fallback: try to execute statements individually
-        // Remove comments first
-        let cleanSchema = schema
-          .replace(/--.*$/gm, '') // Remove single-line comments
-          .replace(/\/\*[\s\S]*?\*\//g, ''); // Remove multi-line comments
-        
-        // Split by semicolon, but preserve dollar-quoted strings
-        const statements: string[] = [];
-        let current = '';
-        let inDollarQuote = false;
-        let dollarTag = '';
-        
-        for (let i = 0; i < cleanSchema.length; i++) {
-          const char = cleanSchema[i];
-          current += char;
-          
-          // Check for dollar quote start: $tag$ or $$
-          if (char === '$' && !inDollarQuote) {
-            const nextChars = cleanSchema.substring(i, i + 10);
-            const match = nextChars.match(/^\$([^$]*)\$/);
-            if (match) {
-              inDollarQuote = true;
-              dollarTag = match[0];
-              i += dollarTag.length - 1;
-              continue;
-            }
-          }
-          
-          // Check for dollar quote end
-          if (inDollarQuote && current.endsWith(dollarTag)) {
-            inDollarQuote = false;
-            dollarTag = '';
-          }
-          
-          // Split on semicolon only if not in dollar quote
-          if (char === ';' && !inDollarQuote) {
-            const stmt = current.trim();
-            if (stmt.length > 10) {
-              statements.push(stmt);
-            }
-            current = '';
-          }
-        }
-        
-        // Execute remaining statement
-        if (current.trim().length > 10) {
-          statements.push(current.trim());
-        }
-        
-        let executed = 0;
-        for (const statement of statements) {
-          try {
-            await pool.query(statement);
-            executed++;
-          } catch (stmtError: any) {
-            const stmtErrorMsg = stmtError.message || String(stmtError);
-            const stmtErrorCode = stmtError.code || '';
-            if (stmtErrorCode !== '42P07' && 
-                stmtErrorCode !== '42710' &&
-                !stmtErrorMsg.includes('already exists') && 
-                !stmtErrorMsg.includes('duplicate')) {
-              console.error('Migration error:', stmtErrorMsg);
-              throw stmtError;
-            }
-          }
-        }
-        console.log(`Executed ${executed} statements`);
-      }
-    }
-    
-    console.log('Database schema ready');
+    const applied = await migrateUp();
+    console.log(`Database schema ready (${applied.length} migration(s) applied)`);
   } catch (error) {
     console.error('Migration failed:', error);
     throw error;
@@ -144,33 +55,69 @@ async function initialize() {
   const result = await pool.query('SELECT COUNT(*) FROM achievement_groups');
   const groupCount = parseInt(result.rows[0].count);
 
-  if (groupCount === 0) {
+  if (groupCount === 0 && process.env.SNAPSHOT_PATH) {
+    // Offline setups seed the database from a snapshot instead of the GW2 API
+    await importStartupSnapshot(process.env.SNAPSHOT_PATH);
+  } else if (groupCount === 0) {
     console.log('No data found. Running initial sync...');
     try {
-      await syncAllData();
+      await syncAllData({ trigger: 'startup' });
       console.log('Initial sync completed');
     } catch (error) {
-      console.error('Initial sync failed:', error);
-      console.log('Server will start, but data may be incomplete. Run sync manually via POST /api/sync');
+      if (error instanceof SyncAlreadyRunningError) {
+        // Another replica is already running the initial sync
+        console.log(`Initial sync skipped: ${error.message}`);
+      } else {
+        console.error('Initial sync failed:', error);
+        console.log('Server will start, but data may be incomplete. Run sync manually via POST /api/sync');
+      }
     }
   } else {
     console.log(`Found ${groupCount} groups in database. Skipping initial sync.`);
   }
 }
 
+async function importStartupSnapshot(path: string) {
+  console.log(`No data found. Importing snapshot ${path}...`);
+  try {
+    const snapshot = readSnapshotFile(path);
+    const counts = await importSnapshot(snapshot);
+    console.log(`Imported snapshot taken ${snapshot.header.created_at} (${counts.achievements} achievements)`);
+  } catch (error) {
+    if (error instanceof SyncAlreadyRunningError) {
+      // Another replica is already importing it
+      console.log(`Snapshot import skipped: ${error.message}`);
+    } else if (error instanceof SnapshotError) {
+      console.error(`Snapshot import failed: ${error.message}`);
+    } else {
+      console.error('Snapshot import failed:', error);
+    }
+  }
+}
+
 // Start server
 app.listen(PORT, async () => {
   console.log(`Server running on port ${PORT}`);
   await initialize();
 
+  // Instances without access to the GW2 API set NIGHTLY_SYNC=false
+  if (process.env.NIGHTLY_SYNC === 'false') {
+    console.log('Nightly sync disabled');
+    return;
+  }
+
   // Schedule nightly sync at 2 AM
   cron.schedule('0 2 * * *', async () => {
     console.log('Running scheduled nightly sync...');
     try {
-      await syncAllData();
+      await syncAllData({ trigger: 'cron' });
       console.log('Nightly sync completed');
     } catch (error) {
-      console.error('Nightly sync failed:', error);
+      if (error instanceof SyncAlreadyRunningError) {
+        console.log(`Nightly sync skipped: ${error.message}`);
+      } else {
+        console.error('Nightly sync failed:', error);
+      }
     }
   }, {
     timezone: 'UTC'
@@ -1,92 +1,162 @@
-import { Router } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
 import { pool } from '../db/connection.js';
+import { listSyncRuns, getSyncRun } from '../services/syncRuns.js';
+import { listSyncRejects } from '../services/syncRejects.js';
+import { Gw2ApiError, CircuitOpenError } from '../services/gw2Client.js';
+import {
+  KeyPermission,
+  checkKeyPermissions,
+  fetchAccount,
+  fetchAccountAchievements,
+  isPlausibleApiKey,
+} from '../services/accountProgress.js';
+import { SyncAlreadyRunningError } from '../services/syncLock.js';
+import { TranslatableEntity, languageMiddleware, translateRows } from '../services/localization.js';
+import { Gw2Language } from '../services/gw2Api.js';
+import { AccountAchievementProgress, calculateAccountPoints } from '../services/achievementPoints.js';
+import {
+  AchievementChangeType,
+  listAchievementChanges,
+  countAchievementChanges,
+  getAchievementHistory,
+} from '../services/achievementHistory.js';
+import { FeedEntry, FeedOptions, buildAtomFeed, buildJsonFeed } from '../services/feed.js';
+import {
+  WebhookValidationError,
+  listWebhooks,
+  getWebhook,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  listWebhookDeliveries,
+} from '../services/webhooks.js';
+import {
+  SnapshotError,
+  DatasetExistsError,
+  exportSnapshot,
+  encodeSnapshot,
+  decodeSnapshot,
+  importSnapshot,
+} from '../services/snapshot.js';
 
 const router = Router();
 
-// Helper function to enrich achievements with item and title data
-async function enrichAchievementsWithItems(rows: any[]): Promise<any[]> {
-  // Extract all item IDs and title IDs from rewards
+// Every route answers in the language from ?lang= or Accept-Language (res.locals.lang)
+router.use(languageMiddleware);
+
+// Retired groups, categories and achievements (removed upstream) are hidden unless ?includeRetired=true
+function includeRetired(req: Request): boolean {
+  return req.query.includeRetired === 'true';
+}
+
+// Catalogue rows attached to achievement rewards and bits
+interface ItemRow {
+  id: number;
+  name: string;
+  description: string | null;
+  type: string | null;
+  rarity: string | null;
+  level: number | null;
+  vendor_value: number | null;
+  icon: string | null;
+  details: unknown;
+}
+
+interface TitleRow {
+  id: number;
+  name: string;
+}
+
+interface SkinRow {
+  id: number;
+  name: string;
+  description: string | null;
+  type: string | null;
+  rarity: string | null;
+  icon: string | null;
+  flags: string[] | null;
+  restrictions: string[] | null;
+  details: unknown;
+}
+
+interface MiniRow {
+  id: number;
+  name: string;
+  unlock: string | null;
+  icon: string | null;
+  order: number | null;
+  item_id: number | null;
+  rarity: string | null;
+}
+
+// A reward or collection bit; Item, Title, Skin and Minipet entries refer to a catalogue row by id
+interface RewardEntry {
+  type: string;
+  id?: number;
+  [field: string]: unknown;
+}
+
+// Fetch catalogue rows by id, translated into lang and keyed by id
+async function fetchLookup<T extends { id: number }>(
+  table: string,
+  columns: string,
+  ids: Set<number>,
+  entityType: TranslatableEntity,
+  lang: Gw2Language
+): Promise<Record<number, T>> {
+  if (ids.size === 0) return {};
+  const result = await pool.query(`SELECT ${columns} FROM ${table} WHERE id = ANY($1)`, [Array.from(ids)]);
+  const rows = await translateRows<T>(entityType, result.rows, lang);
+  return Object.fromEntries(rows.map(row => [row.id, row]));
+}
+
+// Helper function to enrich achievements with item, title, skin and mini data, translated into lang
+async function enrichAchievementsWithItems(rows: any[], lang: Gw2Language = 'en'): Promise<any[]> {
+  rows = await translateRows('achievement', rows, lang);
+
+  // Extract all item, title, skin and mini IDs from rewards and collection bits
   const itemIds = new Set<number>();
   const titleIds = new Set<number>();
+  const skinIds = new Set<number>();
+  const miniIds = new Set<number>();
   for (const row of rows) {
-    if (row.rewards) {
-      for (const reward of row.rewards) {
-        if (reward.type === 'Item' && reward.id) {
-          itemIds.add(reward.id);
-        } else if (reward.type === 'Title' && reward.id) {
-          titleIds.add(reward.id);
-        }
+    for (const entry of [...(row.rewards || []), ...(row.bits || [])]) {
+      if (!entry.id) continue;
+      if (entry.type === 'Item') {
+        itemIds.add(entry.id);
+      } else if (entry.type === 'Title') {
+        titleIds.add(entry.id);
+      } else if (entry.type === 'Skin') {
+        skinIds.add(entry.id);
+      } else if (entry.type === 'Minipet') {
+        miniIds.add(entry.id);
       }
     }
   }
 
-  // Fetch items if any exist
-  let itemsMap: Record<number, any> = {};
-  if (itemIds.size > 0) {
-    try {
-      const itemIdsArray = Array.from(itemIds);
-      const itemsResult = await pool.query(
-        `SELECT id, name, description, type, rarity, level, vendor_value, icon, details
-         FROM items
-         WHERE id = ANY($1)`,
-        [itemIdsArray]
-      );
-      
-      itemsMap = itemsResult.rows.reduce((acc, item) => {
-        acc[item.id] = {
-          id: item.id,
-          name: item.name,
-          description: item.description,
-          type: item.type,
-          rarity: item.rarity,
-          level: item.level,
-          vendor_value: item.vendor_value,
-          icon: item.icon,
-          details: item.details,
-        };
-        return acc;
-      }, {} as Record<number, any>);
-    } catch (error: any) {
-      // If items table doesn't exist yet, just continue without item data
-      // This can happen if migrations haven't run yet
-      if (error.code === '42P01') { // relation does not exist
-        console.warn('Items table does not exist yet, skipping item enrichment');
-      } else {
-        throw error; // Re-throw other errors
-      }
-    }
-  }
-
-  // Fetch titles if any exist
-  let titlesMap: Record<number, any> = {};
-  if (titleIds.size > 0) {
-    try {
-      const titleIdsArray = Array.from(titleIds);
-      const titlesResult = await pool.query(
-        `SELECT id, name
-         FROM titles
-         WHERE id = ANY($1)`,
-        [titleIdsArray]
-      );
-      
-      titlesMap = titlesResult.rows.reduce((acc, title) => {
-        acc[title.id] = {
-          id: title.id,
-          name: title.name,
-        };
-        return acc;
-      }, {} as Record<number, any>);
-    } catch (error: any) {
-      // If titles table doesn't exist yet, just continue without title data
-      if (error.code === '42P01') { // relation does not exist
-        console.warn('Titles table does not exist yet, skipping title enrichment');
-      } else {
-        throw error; // Re-throw other errors
-      }
+  const [itemsMap, titlesMap, skinsMap, minisMap] = await Promise.all([
+    fetchLookup<ItemRow>('items', 'id, name, description, type, rarity, level, vendor_value, icon, details', itemIds, 'item', lang),
+    fetchLookup<TitleRow>('titles', 'id, name', titleIds, 'title', lang),
+    fetchLookup<SkinRow>('skins', 'id, name, description, type, rarity, icon, flags, restrictions, details', skinIds, 'skin', lang),
+    fetchLookup<MiniRow>('minis', 'id, name, unlock, icon, "order", item_id, rarity', miniIds, 'mini', lang),
+  ]);
+
+  // Attach the item, title, skin or mini a reward or bit refers to
+  const enrichEntry = (entry: RewardEntry): RewardEntry => {
+    if (entry.type === 'Item' && entry.id && itemsMap[entry.id]) {
+      return { ...entry, item: itemsMap[entry.id] };
+    } else if (entry.type === 'Title' && entry.id && titlesMap[entry.id]) {
+      return { ...entry, title: titlesMap[entry.id] };
+    } else if (entry.type === 'Skin' && entry.id && skinsMap[entry.id]) {
+      return { ...entry, skin: skinsMap[entry.id] };
+    } else if (entry.type === 'Minipet' && entry.id && minisMap[entry.id]) {
+      return { ...entry, mini: minisMap[entry.id] };
     }
-  }
+    return entry;
+  };
 
-  // Map achievements and enrich rewards with item and title data
+  // Map achievements and enrich rewards and bits
   return rows.map(row => {
     const achievement: any = {
       id: row.id,
@@ -100,24 +170,17 @@ async function enrichAchievementsWithItems(rows: any[]): Promise<any[]> {
       tiers: row.tiers,
       rewards: row.rewards,
       prerequisites: row.prerequisites,
+      bits: row.bits,
+      point_cap: row.point_cap,
+      retired_at: row.retired_at,
     };
 
-    // Enrich rewards with item and title data
+    // Enrich rewards and bits (Text bits carry their own text)
     if (achievement.rewards) {
-      achievement.rewards = achievement.rewards.map((reward: any) => {
-        if (reward.type === 'Item' && reward.id && itemsMap[reward.id]) {
-          return {
-            ...reward,
-            item: itemsMap[reward.id],
-          };
-        } else if (reward.type === 'Title' && reward.id && titlesMap[reward.id]) {
-          return {
-            ...reward,
-            title: titlesMap[reward.id],
-          };
-        }
-        return reward;
-      });
+      achievement.rewards = achievement.rewards.map(enrichEntry);
+    }
+    if (achievement.bits) {
+      achievement.bits = achievement.bits.map(enrichEntry);
     }
 
     return achievement;
@@ -133,15 +196,18 @@ router.get('/groups', async (req, res) => {
         ag.name,
         ag.description,
         ag."order",
+        ag.retired_at,
         COALESCE(
-          json_agg(DISTINCT gc.category_id) FILTER (WHERE gc.category_id IS NOT NULL),
+          json_agg(DISTINCT gc.category_id) FILTER (WHERE gc.category_id IS NOT NULL AND ($1 OR ac.retired_at IS NULL)),
           '[]'::json
         ) as categories
       FROM achievement_groups ag
       LEFT JOIN group_categories gc ON ag.id = gc.group_id
-      GROUP BY ag.id, ag.name, ag.description, ag."order"
+      LEFT JOIN achievement_categories ac ON ac.id = gc.category_id
+      WHERE $1 OR ag.retired_at IS NULL
+      GROUP BY ag.id, ag.name, ag.description, ag."order", ag.retired_at
       ORDER BY ag."order"
-    `);
+    `, [includeRetired(req)]);
 
     const groups = result.rows.map(row => ({
       id: row.id,
@@ -149,9 +215,10 @@ router.get('/groups', async (req, res) => {
       description: row.description,
       order: row.order,
       categories: row.categories || [],
+      retired_at: row.retired_at,
     }));
 
-    res.json(groups);
+    res.json(await translateRows('group', groups, res.locals.lang));
   } catch (error) {
     console.error('Error fetching groups:', error);
     res.status(500).json({ error: 'Failed to fetch groups' });
@@ -169,17 +236,19 @@ router.get('/groups/:groupId/categories', async (req, res) => {
         ac.description,
         ac."order",
         ac.icon,
+        ac.retired_at,
         COALESCE(
-          json_agg(DISTINCT ca.achievement_id) FILTER (WHERE ca.achievement_id IS NOT NULL),
+          json_agg(DISTINCT ca.achievement_id) FILTER (WHERE ca.achievement_id IS NOT NULL AND ($2 OR a.retired_at IS NULL)),
           '[]'::json
         ) as achievements
       FROM achievement_categories ac
       INNER JOIN group_categories gc ON ac.id = gc.category_id
       LEFT JOIN category_achievements ca ON ac.id = ca.category_id
-      WHERE gc.group_id = $1
-      GROUP BY ac.id, ac.name, ac.description, ac."order", ac.icon
+      LEFT JOIN achievements a ON a.id = ca.achievement_id
+      WHERE gc.group_id = $1 AND ($2 OR ac.retired_at IS NULL)
+      GROUP BY ac.id, ac.name, ac.description, ac."order", ac.icon, ac.retired_at
       ORDER BY ac."order"
-    `, [groupId]);
+    `, [groupId, includeRetired(req)]);
 
     const categories = result.rows.map(row => ({
       id: row.id,
@@ -188,9 +257,10 @@ router.get('/groups/:groupId/categories', async (req, res) => {
       order: row.order,
       icon: row.icon,
       achievements: row.achievements || [],
+      retired_at: row.retired_at,
     }));
 
-    res.json(categories);
+    res.json(await translateRows('category', categories, res.locals.lang));
   } catch (error) {
     console.error('Error fetching categories:', error);
     res.status(500).json({ error: 'Failed to fetch categories' });
@@ -213,14 +283,17 @@ router.get('/categories/:categoryId/achievements', async (req, res) => {
         a.flags,
         a.tiers,
         a.rewards,
-        a.prerequisites
+        a.prerequisites,
+        a.bits,
+        a.point_cap,
+        a.retired_at
       FROM achievements a
       INNER JOIN category_achievements ca ON a.id = ca.achievement_id
-      WHERE ca.category_id = $1
+      WHERE ca.category_id = $1 AND ($2 OR a.retired_at IS NULL)
       ORDER BY a.id
-    `, [categoryId]);
+    `, [categoryId, includeRetired(req)]);
 
-    const achievements = await enrichAchievementsWithItems(result.rows);
+    const achievements = await enrichAchievementsWithItems(result.rows, res.locals.lang);
     res.json(achievements);
   } catch (error) {
     console.error('Error fetching achievements:', error);
@@ -253,12 +326,15 @@ router.get('/achievements', async (req, res) => {
         flags,
         tiers,
         rewards,
-        prerequisites
+        prerequisites,
+        bits,
+        point_cap,
+        retired_at
       FROM achievements
-      WHERE id = ANY($1)
-    `, [idArray]);
+      WHERE id = ANY($1) AND ($2 OR retired_at IS NULL)
+    `, [idArray, includeRetired(req)]);
 
-    const achievements = await enrichAchievementsWithItems(result.rows);
+    const achievements = await enrichAchievementsWithItems(result.rows, res.locals.lang);
     res.json(achievements);
   } catch (error) {
     console.error('Error fetching achievements:', error);
@@ -270,9 +346,11 @@ router.get('/achievements', async (req, res) => {
 router.get('/achievement-category-map', async (req, res) => {
   try {
     const result = await pool.query(`
-      SELECT achievement_id, category_id
-      FROM category_achievements
-    `);
+      SELECT ca.achievement_id, ca.category_id
+      FROM category_achievements ca
+      INNER JOIN achievements a ON a.id = ca.achievement_id
+      WHERE $1 OR a.retired_at IS NULL
+    `, [includeRetired(req)]);
 
     const map: Record<number, number> = {};
     result.rows.forEach(row => {
@@ -308,11 +386,14 @@ router.get('/achievements/:achievementId/unlocks', async (req, res) => {
         flags,
         tiers,
         rewards,
-        prerequisites
+        prerequisites,
+        bits,
+        point_cap,
+        retired_at
       FROM achievements
-      WHERE prerequisites @> $1::jsonb
+      WHERE prerequisites @> $1::jsonb AND ($2 OR retired_at IS NULL)
       ORDER BY id
-    `, [JSON.stringify([id])]);
+    `, [JSON.stringify([id]), includeRetired(req)]);
 
     const achievements = result.rows.map(row => ({
       id: row.id,
@@ -326,9 +407,12 @@ router.get('/achievements/:achievementId/unlocks', async (req, res) => {
       tiers: row.tiers,
       rewards: row.rewards,
       prerequisites: row.prerequisites,
+      bits: row.bits,
+      point_cap: row.point_cap,
+      retired_at: row.retired_at,
     }));
 
-    res.json(achievements);
+    res.json(await translateRows('achievement', achievements, res.locals.lang));
   } catch (error) {
     console.error('Error fetching unlocked achievements:', error);
     res.status(500).json({ error: 'Failed to fetch unlocked achievements' });
@@ -344,7 +428,8 @@ router.get('/achievement-unlocks-map', async (req, res) => {
         prerequisites
       FROM achievements
       WHERE prerequisites IS NOT NULL AND jsonb_array_length(prerequisites) > 0
-    `);
+        AND ($1 OR retired_at IS NULL)
+    `, [includeRetired(req)]);
 
     const map: Record<number, number[]> = {};
     
@@ -367,14 +452,277 @@ router.get('/achievement-unlocks-map', async (req, res) => {
   }
 });
 
+// Achievements added, changed, retired or restored since a date, with field-level diffs
+// (e.g. /api/changes?since=2025-06-01&type=changed)
+router.get('/changes', async (req, res) => {
+  try {
+    const since = new Date(String(req.query.since ?? ''));
+    if (!req.query.since || isNaN(since.getTime())) {
+      return res.status(400).json({ error: 'A valid since date is required, e.g. ?since=2025-06-01' });
+    }
+
+    const changeTypes: AchievementChangeType[] = ['added', 'changed', 'retired', 'restored'];
+    const type = req.query.type;
+    if (type !== undefined && !changeTypes.includes(type as AchievementChangeType)) {
+      return res.status(400).json({ error: `Invalid type. Use one of: ${changeTypes.join(', ')}` });
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '1000')) || 1000, 1), 10000);
+
+    const [counts, changes] = await Promise.all([
+      countAchievementChanges(since),
+      listAchievementChanges(since, { changeType: type as AchievementChangeType | undefined, limit }),
+    ]);
+    res.json({ since: since.toISOString(), counts, changes });
+  } catch (error) {
+    console.error('Error fetching achievement changes:', error);
+    res.status(500).json({ error: 'Failed to fetch achievement changes' });
+  }
+});
+
+// Latest achievements added or changed by the sync, newest first, with their group/category
+// breadcrumb and enriched rewards. Retired achievements are left out.
+async function loadFeedEntries(limit: number, lang: Gw2Language): Promise<FeedEntry[]> {
+  const result = await pool.query(`
+    SELECT
+      h.achievement_id,
+      h.version,
+      h.change_type,
+      h.diff,
+      h.changed_at,
+      a.id,
+      a.icon,
+      a.name,
+      a.description,
+      a.requirement,
+      a.rewards
+    FROM achievement_history h
+    JOIN achievements a ON a.id = h.achievement_id
+    WHERE h.change_type IN ('added', 'changed') AND a.retired_at IS NULL
+    ORDER BY h.changed_at DESC, h.achievement_id, h.version DESC
+    LIMIT $1
+  `, [limit]);
+  if (result.rows.length === 0) return [];
+
+  // Enrichment builds new objects holding only achievement columns; merge them back over the
+  // history rows (same order) so version, change type, date and diff are kept
+  const enriched = await enrichAchievementsWithItems(result.rows.map(row => ({ ...row })), lang);
+  const rows = result.rows.map((row, index) => ({ ...row, ...enriched[index] }));
+  const ids = rows.map(row => row.id);
+
+  const breadcrumbResult = await pool.query(`
+    SELECT DISTINCT ON (ca.achievement_id)
+      ca.achievement_id,
+      g.id AS group_id,
+      g.name AS group_name,
+      c.id AS category_id,
+      c.name AS category_name
+    FROM category_achievements ca
+    JOIN achievement_categories c ON c.id = ca.category_id AND c.retired_at IS NULL
+    LEFT JOIN group_categories gc ON gc.category_id = c.id
+    LEFT JOIN achievement_groups g ON g.id = gc.group_id AND g.retired_at IS NULL
+    WHERE ca.achievement_id = ANY($1)
+    ORDER BY ca.achievement_id, g."order", c."order"
+  `, [ids]);
+  const groups = await translateRows(
+    'group',
+    breadcrumbResult.rows.filter(row => row.group_id).map(row => ({ id: row.group_id, name: row.group_name })),
+    lang
+  );
+  const categories = await translateRows(
+    'category',
+    breadcrumbResult.rows.map(row => ({ id: row.category_id, name: row.category_name })),
+    lang
+  );
+  const groupNames = new Map(groups.map(g => [g.id, g.name]));
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  const breadcrumbs = new Map<number, string[]>();
+  for (const row of breadcrumbResult.rows) {
+    breadcrumbs.set(
+      row.achievement_id,
+      [groupNames.get(row.group_id), categoryNames.get(row.category_id)].filter(Boolean)
+    );
+  }
+
+  return rows.map(row => ({
+    achievementId: row.achievement_id,
+    version: row.version,
+    changeType: row.change_type,
+    changedAt: row.changed_at,
+    name: row.name,
+    description: row.description,
+    requirement: row.requirement,
+    icon: row.icon,
+    breadcrumb: breadcrumbs.get(row.achievement_id) || [],
+    rewards: row.rewards,
+    changedFields: row.diff ? Object.keys(row.diff) : [],
+  }));
+}
+
+// Feed URLs. FEED_BASE_URL (e.g. https://pathfinder.example.com) overrides the request's own
+// host, for deployments behind a proxy that rewrites it
+function feedOptions(req: Request): FeedOptions {
+  const origin = (process.env.FEED_BASE_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+  return {
+    title: 'GW2 Pathfinder: new and changed achievements',
+    selfUrl: `${origin}${req.originalUrl}`,
+    homeUrl: origin,
+  };
+}
+
+const feedLimit = (req: Request) => Math.min(Math.max(parseInt(String(req.query.limit ?? '50')) || 50, 1), 200);
+
+// Atom feed of the latest added or changed achievements (?limit=, default 50, at most 200)
+router.get('/feed.atom', async (req, res) => {
+  try {
+    const entries = await loadFeedEntries(feedLimit(req), res.locals.lang);
+    res.type('application/atom+xml').send(buildAtomFeed(entries, feedOptions(req)));
+  } catch (error) {
+    console.error('Error building Atom feed:', error);
+    res.status(500).json({ error: 'Failed to build feed' });
+  }
+});
+
+// The same feed as JSON Feed 1.1
+router.get('/feed.json', async (req, res) => {
+  try {
+    const entries = await loadFeedEntries(feedLimit(req), res.locals.lang);
+    res.type('application/feed+json').send(JSON.stringify(buildJsonFeed(entries, feedOptions(req))));
+  } catch (error) {
+    console.error('Error building JSON feed:', error);
+    res.status(500).json({ error: 'Failed to build feed' });
+  }
+});
+
+// Every recorded version of one achievement, oldest first
+router.get('/achievements/:achievementId/history', async (req, res) => {
+  try {
+    const id = parseInt(req.params.achievementId);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid achievement ID' });
+    }
+
+    res.json(await getAchievementHistory(id));
+  } catch (error) {
+    console.error('Error fetching achievement history:', error);
+    res.status(500).json({ error: 'Failed to fetch achievement history' });
+  }
+});
+
+// AP earned and still obtainable for an account, tier by tier and including repeat caps.
+// Body: { progress: [...] } as returned by /v2/account/achievements
+router.post('/account/points', async (req, res) => {
+  try {
+    const progress = req.body?.progress;
+    if (!Array.isArray(progress) || !progress.every(p => p && typeof p.id === 'number')) {
+      return res.status(400).json({ error: 'Body must contain a progress array of account achievements' });
+    }
+
+    res.json(await calculateAccountPoints(progress as AccountAchievementProgress[]));
+  } catch (error) {
+    console.error('Error calculating account points:', error);
+    res.status(500).json({ error: 'Failed to calculate account points' });
+  }
+});
+
+// Account routes (/api/me/...) act for the user whose GW2 API key is sent as
+// `Authorization: Bearer <key>`; the key never appears in a URL. Upstream responses are cached
+// per key for ACCOUNT_CACHE_TTL_MS (default one minute).
+function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') || '');
+  if (!match || !isPlausibleApiKey(match[1])) {
+    return res.status(401).json({ error: 'GW2 API key required as Authorization: Bearer <key>' });
+  }
+  res.locals.apiKey = match[1];
+  // Responses belong to one key; keep them out of shared caches
+  res.set('Cache-Control', 'private, no-store');
+  next();
+}
+
+router.use('/me', requireApiKey);
+
+function sendAccountError(res: Response, error: unknown, what: string) {
+  // A bad or revoked key (401), or one without the needed permission (403)
+  if (error instanceof Gw2ApiError && (error.status === 401 || error.status === 403)) {
+    return res.status(error.status).json({ error: 'GW2 API rejected the key', detail: error.message });
+  }
+  if (error instanceof Gw2ApiError || error instanceof CircuitOpenError) {
+    return res.status(502).json({ error: 'GW2 API unavailable', detail: error.message });
+  }
+  console.error(`Error fetching ${what}:`, error);
+  res.status(500).json({ error: `Failed to fetch ${what}` });
+}
+
+// Answer 403 with the missing permissions, checked against /v2/tokeninfo, before calling upstream
+function requirePermissions(...required: KeyPermission[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await checkKeyPermissions(res.locals.apiKey);
+      const missing = required.filter(permission => !report.permissions.includes(permission));
+      if (missing.length > 0) {
+        return res.status(403).json({ error: `API key is missing permissions: ${missing.join(', ')}`, missing });
+      }
+      next();
+    } catch (error) {
+      sendAccountError(res, error, 'token info');
+    }
+  };
+}
+
+// What the key may access: every granted permission, and which of the ones Pathfinder uses
+// are present or missing
+router.get('/me/tokeninfo', async (req, res) => {
+  try {
+    res.json(await checkKeyPermissions(res.locals.apiKey));
+  } catch (error) {
+    sendAccountError(res, error, 'token info');
+  }
+});
+
+// The account behind the key (name, access, ...)
+router.get('/me/account', requirePermissions('account'), async (req, res) => {
+  try {
+    res.json(await fetchAccount(res.locals.apiKey));
+  } catch (error) {
+    sendAccountError(res, error, 'account');
+  }
+});
+
+// The account's achievement progress, as /v2/account/achievements returns it
+router.get('/me/achievements', requirePermissions('account', 'progression'), async (req, res) => {
+  try {
+    res.json(await fetchAccountAchievements(res.locals.apiKey));
+  } catch (error) {
+    sendAccountError(res, error, 'account achievements');
+  }
+});
+
 // Manual sync trigger endpoint (for testing/admin)
+// Pass ?mode=full to rewrite every row instead of only new or changed ones,
+// and ?resume=false to ignore the checkpoints of a recently failed run
 router.post('/sync', async (req, res) => {
   try {
-    const { syncAllData } = await import('../services/syncService.js');
-    res.json({ message: 'Sync started', status: 'processing' });
+    const mode = req.query.mode === 'full' ? 'full' : 'incremental';
+    const resume = req.query.resume !== 'false';
+    const { startSync } = await import('../services/syncService.js');
+    let started;
+    try {
+      started = await startSync({ mode, trigger: 'manual', resume });
+    } catch (error) {
+      if (error instanceof SyncAlreadyRunningError) {
+        return res.status(409).json({
+          error: 'Sync already running',
+          status: 'running',
+          activeRunId: error.activeRunId,
+          activeRun: error.activeRunId !== null ? `/api/sync/runs/${error.activeRunId}` : null,
+        });
+      }
+      throw error;
+    }
+    const { runId, done } = started;
+    res.json({ message: 'Sync started', status: 'processing', mode, runId });
     
-    // Run sync in background
-    syncAllData().catch(err => {
+    // Sync keeps running in background; its outcome is recorded in sync_runs
+    done.catch(err => {
       console.error('Background sync failed:', err);
     });
   } catch (error) {
@@ -383,5 +731,195 @@ router.post('/sync', async (req, res) => {
   }
 });
 
+// Get recent sync runs (most recent first)
+router.get('/sync/runs', async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20')) || 20, 1), 100);
+    res.json(await listSyncRuns(limit));
+  } catch (error) {
+    console.error('Error fetching sync runs:', error);
+    res.status(500).json({ error: 'Failed to fetch sync runs' });
+  }
+});
+
+// Get a single sync run with per-step durations and counts
+router.get('/sync/runs/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid sync run ID' });
+    }
+
+    const run = await getSyncRun(id);
+    if (!run) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching sync run:', error);
+    res.status(500).json({ error: 'Failed to fetch sync run' });
+  }
+});
+
+// Get the records a sync run rejected as invalid, with the reason and the payload as received
+router.get('/sync/runs/:id/rejects', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid sync run ID' });
+    }
+
+    if (!(await getSyncRun(id))) {
+      return res.status(404).json({ error: 'Sync run not found' });
+    }
+    res.json(await listSyncRejects(id));
+  } catch (error) {
+    console.error('Error fetching sync rejects:', error);
+    res.status(500).json({ error: 'Failed to fetch sync rejects' });
+  }
+});
+
+// Admin routes (/api/admin/...) need `Authorization: Bearer <ADMIN_TOKEN>`. They are disabled
+// entirely while ADMIN_TOKEN is unset, since they can send requests anywhere and replace the data.
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: 'Admin routes are disabled: set ADMIN_TOKEN to enable them' });
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.get('authorization') || '');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'Admin token required' });
+  }
+  next();
+}
+
+router.use('/admin', requireAdmin);
+
+// Webhook subscriptions. Secrets are write-only: responses only say whether one is set.
+router.get('/admin/webhooks', async (req, res) => {
+  try {
+    res.json(await listWebhooks());
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// Body: { url, events, format?, secret?, min_new_achievements?, description?, enabled? }
+router.post('/admin/webhooks', async (req, res) => {
+  try {
+    res.status(201).json(await createWebhook(req.body || {}));
+  } catch (error) {
+    if (error instanceof WebhookValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// Body: any of the fields accepted by POST /admin/webhooks
+router.patch('/admin/webhooks/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await updateWebhook(id, req.body || {});
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json(webhook);
+  } catch (error) {
+    if (error instanceof WebhookValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+router.delete('/admin/webhooks/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    if (!(await deleteWebhook(id))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Delivery log of one webhook, newest first: status, attempts, last response status and error
+router.get('/admin/webhooks/:id/deliveries', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    if (!(await getWebhook(id))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50')) || 50, 1), 500);
+    res.json(await listWebhookDeliveries(id, limit));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// Download a snapshot of the dataset (gzipped JSON), to import into an instance that cannot
+// reach the GW2 API
+router.get('/admin/snapshot', async (req, res) => {
+  try {
+    const snapshot = await exportSnapshot();
+    const file = `gw2-pathfinder-${snapshot.header.created_at.slice(0, 10)}.json.gz`;
+    res.type('application/gzip').attachment(file).send(encodeSnapshot(snapshot));
+  } catch (error) {
+    console.error('Error exporting snapshot:', error);
+    res.status(500).json({ error: 'Failed to export snapshot' });
+  }
+});
+
+// Import a snapshot. Body: the file from GET /admin/snapshot, sent as application/gzip or
+// application/octet-stream. Refuses to overwrite an existing dataset unless ?replace=true
+router.post(
+  '/admin/snapshot',
+  express.raw({ type: ['application/gzip', 'application/octet-stream'], limit: process.env.SNAPSHOT_UPLOAD_LIMIT || '200mb' }),
+  async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Body must be a snapshot file sent as application/gzip' });
+      }
+
+      const snapshot = decodeSnapshot(req.body);
+      const counts = await importSnapshot(snapshot, { replace: req.query.replace === 'true' });
+      res.json({ message: 'Snapshot imported', created_at: snapshot.header.created_at, counts });
+    } catch (error) {
+      if (error instanceof SnapshotError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof DatasetExistsError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof SyncAlreadyRunningError) {
+        return res.status(409).json({ error: 'Sync already running', activeRunId: error.activeRunId });
+      }
+      console.error('Error importing snapshot:', error);
+      res.status(500).json({ error: 'Failed to import snapshot' });
+    }
+  }
+);
+
 export default router;
 
@@ -0,0 +1,125 @@
+import { createHash } from 'crypto';
+import { gw2Client } from './gw2Client.js';
+import { GW2_API_BASE } from './gw2Api.js';
+import { AccountAchievementProgress } from './achievementPoints.js';
+
+// Account data fetched on behalf of a user with their API key, so the browser never sends the
+// key to the GW2 API in a URL. Requests go through the shared GW2 client (and its rate limit),
+// pass the key upstream in a header, and are cached per key for a short time.
+
+// The parts of /v2/account the frontend uses
+export interface Account {
+  id: string;
+  name: string;
+  access: string[];
+  [field: string]: unknown;
+}
+
+export interface AccountAchievement extends AccountAchievementProgress {
+  bits?: number[];
+  unlocked?: boolean;
+}
+
+// /v2/tokeninfo
+export interface TokenInfo {
+  id: string;
+  name: string;
+  permissions: string[];
+  // 'APIKey' or 'Subtoken'
+  type?: string;
+}
+
+// Permissions a key is checked for. Progress cannot be read without the required ones; the
+// others are reported so users can create a key that covers everything in one go.
+export const KEY_PERMISSIONS = ['account', 'progression', 'unlocks', 'wallet', 'inventories'] as const;
+export type KeyPermission = typeof KEY_PERMISSIONS[number];
+export const REQUIRED_PERMISSIONS: KeyPermission[] = ['account', 'progression'];
+
+export interface KeyPermissionReport {
+  name: string;
+  type: string | null;
+  // Every permission the key grants, including ones not checked for
+  permissions: string[];
+  present: KeyPermission[];
+  missing: KeyPermission[];
+  // The missing permissions progress cannot be read without
+  missingRequired: KeyPermission[];
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value > 0 ? value : fallback;
+};
+
+const CACHE_TTL_MS = envNumber('ACCOUNT_CACHE_TTL_MS', 60 * 1000);
+
+// GW2 API keys (hex digits and dashes) or subtokens (JWTs); anything else is not sent upstream
+const API_KEY_PATTERN = /^[\w.-]{20,2000}$/;
+
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+// Keyed by endpoint and a hash of the API key, so raw keys are not kept around
+const cache = new Map<string, CacheEntry>();
+
+export function isPlausibleApiKey(apiKey: string): boolean {
+  return API_KEY_PATTERN.test(apiKey);
+}
+
+function cacheKey(path: string, apiKey: string): string {
+  return `${path}:${createHash('sha256').update(apiKey).digest('hex')}`;
+}
+
+function pruneExpired(now: number) {
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= now) cache.delete(key);
+  }
+}
+
+// Concurrent requests for the same key share one upstream call; failures are not cached
+function fetchCached<T>(path: string, apiKey: string): Promise<T> {
+  const now = Date.now();
+  const key = cacheKey(path, apiKey);
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.value as Promise<T>;
+  }
+
+  pruneExpired(now);
+  const value = gw2Client.requestJson<T>(`${GW2_API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+  cache.set(key, { expiresAt: now + CACHE_TTL_MS, value });
+  value.catch(() => {
+    if (cache.get(key)?.value === value) cache.delete(key);
+  });
+  return value;
+}
+
+export function fetchTokenInfo(apiKey: string): Promise<TokenInfo> {
+  return fetchCached<TokenInfo>('/tokeninfo', apiKey);
+}
+
+export async function checkKeyPermissions(apiKey: string): Promise<KeyPermissionReport> {
+  const info = await fetchTokenInfo(apiKey);
+  const permissions = Array.isArray(info.permissions) ? info.permissions : [];
+  const missing = KEY_PERMISSIONS.filter(permission => !permissions.includes(permission));
+  return {
+    name: info.name,
+    type: info.type ?? null,
+    permissions,
+    present: KEY_PERMISSIONS.filter(permission => permissions.includes(permission)),
+    missing,
+    missingRequired: missing.filter(permission => REQUIRED_PERMISSIONS.includes(permission)),
+  };
+}
+
+export function fetchAccount(apiKey: string): Promise<Account> {
+  return fetchCached<Account>('/account', apiKey);
+}
+
+export function fetchAccountAchievements(apiKey: string): Promise<AccountAchievement[]> {
+  return fetchCached<AccountAchievement[]>('/account/achievements', apiKey);
+}
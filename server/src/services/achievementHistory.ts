@@ -0,0 +1,178 @@
+import { PoolClient } from 'pg';
+import { pool } from '../db/connection.js';
+import { Achievement } from './gw2Api.js';
+import { stableStringify } from './changeDetection.js';
+
+// Versioned history of achievement content. The sync records a version whenever an achievement
+// is added, changes in one of the tracked fields, is retired or comes back.
+
+export const TRACKED_FIELDS = [
+  'name',
+  'description',
+  'requirement',
+  'locked_text',
+  'icon',
+  'type',
+  'flags',
+  'tiers',
+  'rewards',
+  'prerequisites',
+  'bits',
+  'point_cap',
+] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number];
+export type AchievementSnapshot = Record<TrackedField, unknown>;
+export type AchievementChangeType = 'added' | 'changed' | 'retired' | 'restored';
+export type FieldDiff = Partial<Record<TrackedField, { from: unknown; to: unknown }>>;
+
+export interface AchievementChange {
+  achievementId: number;
+  changeType: AchievementChangeType;
+  content: AchievementSnapshot;
+  diff: FieldDiff | null;
+}
+
+export interface AchievementHistoryEntry {
+  achievement_id: number;
+  version: number;
+  change_type: AchievementChangeType;
+  name: string;
+  content: AchievementSnapshot;
+  diff: FieldDiff | null;
+  run_id: number | null;
+  changed_at: string;
+}
+
+// Tracked fields of a fetched achievement, normalized the way syncAchievements stores them,
+// so a snapshot of the API record and one of the stored row compare equal
+export function snapshotAchievement(achievement: Achievement): AchievementSnapshot {
+  return {
+    name: achievement.name,
+    description: achievement.description || '',
+    requirement: achievement.requirement || '',
+    locked_text: achievement.locked_text || null,
+    icon: achievement.icon || null,
+    type: achievement.type,
+    flags: achievement.flags || [],
+    tiers: achievement.tiers,
+    rewards: achievement.rewards ?? null,
+    prerequisites: achievement.prerequisites ?? null,
+    bits: achievement.bits ?? null,
+    point_cap: achievement.point_cap ?? null,
+  };
+}
+
+export function diffSnapshots(previous: AchievementSnapshot, next: AchievementSnapshot): FieldDiff {
+  const diff: FieldDiff = {};
+  for (const field of TRACKED_FIELDS) {
+    if (stableStringify(previous[field] ?? null) !== stableStringify(next[field] ?? null)) {
+      diff[field] = { from: previous[field] ?? null, to: next[field] ?? null };
+    }
+  }
+  return diff;
+}
+
+// Stored content of the given achievements, to diff against before they are overwritten
+export async function loadStoredSnapshots(
+  client: PoolClient,
+  ids: number[]
+): Promise<Map<number, AchievementSnapshot>> {
+  if (ids.length === 0) return new Map();
+  const result = await client.query(
+    `SELECT id, ${TRACKED_FIELDS.join(', ')} FROM achievements WHERE id = ANY($1)`,
+    [ids]
+  );
+  return new Map(
+    result.rows.map(row => {
+      const snapshot = {} as AchievementSnapshot;
+      for (const field of TRACKED_FIELDS) snapshot[field] = row[field];
+      return [row.id, snapshot];
+    })
+  );
+}
+
+// Write one history version per change, numbered after the achievement's latest version, in a
+// single statement. Several changes to one achievement are numbered in the order given.
+export async function recordAchievementChanges(
+  client: PoolClient,
+  runId: number,
+  changes: AchievementChange[]
+): Promise<void> {
+  if (changes.length === 0) return;
+  const seen = new Map<number, number>();
+  const rows = changes.map(change => {
+    const seq = (seen.get(change.achievementId) || 0) + 1;
+    seen.set(change.achievementId, seq);
+    return {
+      achievement_id: change.achievementId,
+      seq,
+      change_type: change.changeType,
+      content: change.content,
+      diff: change.diff,
+    };
+  });
+
+  await client.query(
+    `INSERT INTO achievement_history (achievement_id, version, change_type, content, diff, run_id)
+     SELECT c.achievement_id, COALESCE(latest.version, 0) + c.seq, c.change_type, c.content, c.diff, $2
+     FROM jsonb_to_recordset($1) AS c(achievement_id INTEGER, seq INTEGER, change_type TEXT, content JSONB, diff JSONB)
+     CROSS JOIN LATERAL (
+       SELECT MAX(version) AS version FROM achievement_history h WHERE h.achievement_id = c.achievement_id
+     ) latest`,
+    [JSON.stringify(rows), runId]
+  );
+}
+
+type AchievementHistoryRow = Omit<AchievementHistoryEntry, 'name'>;
+
+function mapEntry(row: AchievementHistoryRow): AchievementHistoryEntry {
+  return {
+    achievement_id: row.achievement_id,
+    version: row.version,
+    change_type: row.change_type,
+    name: String(row.content?.name ?? ''),
+    content: row.content,
+    diff: row.diff,
+    run_id: row.run_id,
+    changed_at: row.changed_at,
+  };
+}
+
+// Changes recorded since the given time, newest first
+export async function listAchievementChanges(
+  since: Date,
+  options: { changeType?: AchievementChangeType; limit?: number } = {}
+): Promise<AchievementHistoryEntry[]> {
+  const result = await pool.query(
+    `SELECT * FROM achievement_history
+     WHERE changed_at >= $1 AND ($2::text IS NULL OR change_type = $2)
+     ORDER BY changed_at DESC, achievement_id, version DESC
+     LIMIT $3`,
+    [since, options.changeType ?? null, options.limit ?? 1000]
+  );
+  return result.rows.map(mapEntry);
+}
+
+// Number of changes of each type since the given time
+export async function countAchievementChanges(since: Date): Promise<Record<AchievementChangeType, number>> {
+  const result = await pool.query(
+    `SELECT change_type, COUNT(*)::int AS count FROM achievement_history
+     WHERE changed_at >= $1 GROUP BY change_type`,
+    [since]
+  );
+  const counts: Record<AchievementChangeType, number> = { added: 0, changed: 0, retired: 0, restored: 0 };
+  for (const row of result.rows) {
+    counts[row.change_type as AchievementChangeType] = row.count;
+  }
+  return counts;
+}
+
+// Every recorded version of one achievement, oldest first
+export async function getAchievementHistory(achievementId: number): Promise<AchievementHistoryEntry[]> {
+  const result = await pool.query(
+    `SELECT * FROM achievement_history WHERE achievement_id = $1 ORDER BY version`,
+    [achievementId]
+  );
+  return result.rows.map(mapEntry);
+}
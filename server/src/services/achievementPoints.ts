@@ -0,0 +1,122 @@
+import { pool } from '../db/connection.js';
+import { AchievementTier } from './gw2Api.js';
+
+// Achievement points (AP), tier by tier and including the caps of repeatable achievements.
+// A repeatable achievement awards its tiers again on every repeat, up to point_cap in total.
+
+export interface PointsAchievement {
+  id: number;
+  flags: string[];
+  tiers: AchievementTier[];
+  point_cap?: number | null;
+}
+
+// One entry of /v2/account/achievements
+export interface AccountAchievementProgress {
+  id: number;
+  current?: number;
+  max?: number;
+  done?: boolean;
+  repeated?: number;
+}
+
+export interface TierPoints {
+  count: number;
+  points: number;
+  earned: boolean;
+}
+
+export interface AchievementPoints {
+  id: number;
+  repeatable: boolean;
+  // AP of one pass through the tiers
+  tierTotal: number;
+  // Most AP the achievement can ever award; null for a repeatable without a cap
+  max: number | null;
+  earned: number;
+  // AP still obtainable; for an uncapped repeatable, what is left of the current pass
+  remaining: number;
+  // Tiers of the current pass
+  tiers: TierPoints[];
+}
+
+export interface AccountPoints {
+  earned: number;
+  remaining: number;
+  max: number;
+  // Repeatables without a cap; their remaining AP only counts the current pass
+  uncappedRepeatables: number;
+  // Breakdown of the achievements the account has progress on
+  achievements: AchievementPoints[];
+}
+
+export function calculateAchievementPoints(
+  achievement: PointsAchievement,
+  progress?: AccountAchievementProgress
+): AchievementPoints {
+  const tiers = achievement.tiers || [];
+  const tierTotal = tiers.reduce((acc, t) => acc + t.points, 0);
+  const repeatable = (achievement.flags || []).includes('Repeatable');
+  const current = progress?.current || 0;
+  const repeated = progress?.repeated || 0;
+
+  // For a repeatable, done stays set after the first completion and current counts the
+  // progress of the pass under way; otherwise done means every tier is earned
+  const passDone = !!progress?.done && !(repeatable && repeated > 0);
+  const tierPoints = tiers.map(tier => ({
+    count: tier.count,
+    points: tier.points,
+    earned: passDone || current >= tier.count,
+  }));
+  const passEarned = tierPoints.reduce((acc, t) => acc + (t.earned ? t.points : 0), 0);
+
+  let max: number | null = tierTotal;
+  let earned = passEarned;
+  if (repeatable) {
+    // A negative or missing point_cap means the repeats are uncapped
+    const cap = achievement.point_cap != null && achievement.point_cap >= 0 ? achievement.point_cap : null;
+    max = cap;
+    earned = repeated * tierTotal + passEarned;
+    if (cap !== null) earned = Math.min(earned, cap);
+  }
+
+  return {
+    id: achievement.id,
+    repeatable,
+    tierTotal,
+    max,
+    earned,
+    remaining: max !== null ? Math.max(0, max - earned) : tierTotal - passEarned,
+    tiers: tierPoints,
+  };
+}
+
+export function summarizeAccountPoints(
+  achievements: PointsAchievement[],
+  progress: AccountAchievementProgress[]
+): AccountPoints {
+  const progressById = new Map(progress.map(p => [p.id, p]));
+  const summary: AccountPoints = { earned: 0, remaining: 0, max: 0, uncappedRepeatables: 0, achievements: [] };
+
+  for (const achievement of achievements) {
+    const entry = progressById.get(achievement.id);
+    const points = calculateAchievementPoints(achievement, entry);
+    summary.earned += points.earned;
+    summary.remaining += points.remaining;
+    if (points.max !== null) {
+      summary.max += points.max;
+    } else {
+      summary.max += points.earned + points.remaining;
+      summary.uncappedRepeatables++;
+    }
+    if (entry) summary.achievements.push(points);
+  }
+
+  return summary;
+}
+
+// AP earned and still obtainable for an account, across every synced achievement still live
+export async function calculateAccountPoints(progress: AccountAchievementProgress[]): Promise<AccountPoints> {
+  const result = await pool.query(`SELECT id, flags, tiers, point_cap FROM achievements WHERE retired_at IS NULL`);
+  return summarizeAccountPoints(result.rows, progress);
+}
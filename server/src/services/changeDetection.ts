@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+
+export type SyncMode = 'incremental' | 'full';
+
+export interface EntityChangeCounts {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface ChangeSet<T> {
+  // Records that need to be written (added + changed, or everything in full mode)
+  toWrite: T[];
+  // Content hash of every fetched record, keyed by stringified ID
+  hashes: Map<string, string>;
+  addedIds: string[];
+  changedIds: string[];
+  removedIds: string[];
+  counts: EntityChangeCounts;
+}
+
+// Tables that carry a content_hash column
+export type HashedTable =
+  | 'achievement_groups'
+  | 'achievement_categories'
+  | 'achievements'
+  | 'items'
+  | 'titles'
+  | 'skins'
+  | 'minis';
+
+// Serialize a value with object keys sorted, so equal content always hashes the same
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
+export function hashRecord(record: unknown): string {
+  return createHash('sha256').update(stableStringify(record)).digest('hex');
+}
+
+// Load the stored content hash of every row in a table (NULL for rows synced before hashing existed)
+export async function loadStoredHashes(
+  client: PoolClient,
+  table: HashedTable
+): Promise<Map<string, string | null>> {
+  const result = await client.query(`SELECT id, content_hash FROM ${table}`);
+  const hashes = new Map<string, string | null>();
+  for (const row of result.rows) {
+    hashes.set(String(row.id), row.content_hash);
+  }
+  return hashes;
+}
+
+// Compare fetched records against stored hashes and work out what needs writing
+export function detectChanges<T>(
+  records: T[],
+  getId: (record: T) => string | number,
+  stored: Map<string, string | null>,
+  mode: SyncMode = 'incremental'
+): ChangeSet<T> {
+  const toWrite: T[] = [];
+  const hashes = new Map<string, string>();
+  const addedIds: string[] = [];
+  const changedIds: string[] = [];
+  let unchanged = 0;
+
+  for (const record of records) {
+    const id = String(getId(record));
+    const hash = hashRecord(record);
+    hashes.set(id, hash);
+
+    if (!stored.has(id)) {
+      addedIds.push(id);
+      toWrite.push(record);
+    } else if (stored.get(id) !== hash) {
+      changedIds.push(id);
+      toWrite.push(record);
+    } else {
+      unchanged++;
+      if (mode === 'full') {
+        toWrite.push(record);
+      }
+    }
+  }
+
+  const removedIds = Array.from(stored.keys()).filter(id => !hashes.has(id));
+
+  return {
+    toWrite,
+    hashes,
+    addedIds,
+    changedIds,
+    removedIds,
+    counts: {
+      added: addedIds.length,
+      changed: changedIds.length,
+      unchanged,
+      removed: removedIds.length,
+    },
+  };
+}
+
+// Return the keys whose desired relationship list differs from what is stored
+export function diffRelationships<K>(
+  desired: Map<K, number[]>,
+  stored: Map<K, number[]>,
+  mode: SyncMode = 'incremental'
+): K[] {
+  if (mode === 'full') {
+    return Array.from(desired.keys());
+  }
+
+  const sameMembers = (a: number[], b: number[]) => {
+    if (a.length !== b.length) return false;
+    const sortedA = [...a].sort((x, y) => x - y);
+    const sortedB = [...b].sort((x, y) => x - y);
+    return sortedA.every((value, i) => value === sortedB[i]);
+  };
+
+  const changed: K[] = [];
+  for (const [key, ids] of desired) {
+    const existing = stored.get(key) || [];
+    if (!sameMembers(Array.from(new Set(ids)), existing)) {
+      changed.push(key);
+    }
+  }
+  return changed;
+}
+
+export function formatCounts(counts: EntityChangeCounts): string {
+  return `${counts.added} added, ${counts.changed} changed, ${counts.unchanged} unchanged, ${counts.removed} removed`;
+}
@@ -0,0 +1,159 @@
+// Atom and JSON Feed renderings of recently added or changed achievements
+
+export interface FeedReward {
+  type: string;
+  id?: number;
+  count?: number;
+  region?: string;
+  item?: { name: string };
+  title?: { name: string };
+}
+
+export interface FeedEntry {
+  achievementId: number;
+  version: number;
+  changeType: 'added' | 'changed';
+  changedAt: string | Date;
+  name: string;
+  description: string;
+  requirement: string;
+  icon: string | null;
+  // Group and category names, e.g. ['Collections', 'Legendary Weapons']
+  breadcrumb: string[];
+  rewards: FeedReward[] | null;
+  // Fields that changed, for 'changed' entries
+  changedFields: string[];
+}
+
+export interface FeedOptions {
+  title: string;
+  // URL the feed is served from
+  selfUrl: string;
+  homeUrl: string;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// GW2 text carries markup like <c=@Flavor>...</c> and <br>; feeds get plain text
+const stripMarkup = (text: string) => text.replace(/<\/?c[^>]*>/g, '').replace(/<br\s*\/?>/g, ' ');
+
+const wikiUrl = (name: string) =>
+  `https://wiki.guildwars2.com/wiki/${encodeURIComponent(stripMarkup(name))}`;
+
+const entryId = (entry: FeedEntry) => `urn:gw2-pathfinder:achievement:${entry.achievementId}:v${entry.version}`;
+
+const entryTitle = (entry: FeedEntry) =>
+  `${entry.changeType === 'added' ? 'New' : 'Changed'}: ${stripMarkup(entry.name)}`;
+
+function formatCoins(copper: number): string {
+  const gold = Math.floor(copper / 10000);
+  const silver = Math.floor((copper % 10000) / 100);
+  const rest = copper % 100;
+  return [gold && `${gold}g`, silver && `${silver}s`, rest && `${rest}c`].filter(Boolean).join(' ') || '0c';
+}
+
+export function describeReward(reward: FeedReward): string {
+  switch (reward.type) {
+    case 'Item': {
+      const name = reward.item?.name || `Item #${reward.id}`;
+      return reward.count && reward.count > 1 ? `${reward.count} × ${name}` : name;
+    }
+    case 'Title':
+      return `Title: ${reward.title ? stripMarkup(reward.title.name) : `#${reward.id}`}`;
+    case 'Mastery':
+      return `Mastery point${reward.region ? ` (${reward.region})` : ''}`;
+    case 'Coins':
+      return formatCoins(reward.count || 0);
+    default:
+      return reward.type;
+  }
+}
+
+function entryHtml(entry: FeedEntry): string {
+  const parts: string[] = [];
+  if (entry.icon) {
+    parts.push(`<p><img src="${escapeXml(entry.icon)}" alt="" width="64" height="64"/></p>`);
+  }
+  if (entry.breadcrumb.length > 0) {
+    parts.push(`<p><strong>${escapeXml(entry.breadcrumb.join(' › '))}</strong></p>`);
+  }
+  if (entry.description) parts.push(`<p>${escapeXml(stripMarkup(entry.description))}</p>`);
+  if (entry.requirement) parts.push(`<p><em>${escapeXml(stripMarkup(entry.requirement))}</em></p>`);
+  if (entry.rewards && entry.rewards.length > 0) {
+    const items = entry.rewards.map(r => `<li>${escapeXml(describeReward(r))}</li>`).join('');
+    parts.push(`<p>Rewards:</p><ul>${items}</ul>`);
+  }
+  if (entry.changeType === 'changed' && entry.changedFields.length > 0) {
+    parts.push(`<p>Changed: ${escapeXml(entry.changedFields.join(', '))}</p>`);
+  }
+  return parts.join('\n');
+}
+
+const feedUpdated = (entries: FeedEntry[]) =>
+  entries.length > 0 ? new Date(entries[0].changedAt).toISOString() : new Date().toISOString();
+
+// Atom 1.0 (RFC 4287); entries are expected newest first
+export function buildAtomFeed(entries: FeedEntry[], options: FeedOptions): string {
+  const items = entries.map(entry => {
+    const updated = new Date(entry.changedAt).toISOString();
+    const categories = entry.breadcrumb
+      .map(term => `    <category term="${escapeXml(term)}"/>`)
+      .join('\n');
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(entryId(entry))}</id>`,
+      `    <title>${escapeXml(entryTitle(entry))}</title>`,
+      `    <link rel="alternate" href="${escapeXml(wikiUrl(entry.name))}"/>`,
+      `    <updated>${updated}</updated>`,
+      ...(categories ? [categories] : []),
+      `    <content type="html">${escapeXml(entryHtml(entry))}</content>`,
+      '  </entry>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(options.selfUrl)}</id>`,
+    `  <title>${escapeXml(options.title)}</title>`,
+    `  <updated>${feedUpdated(entries)}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(options.selfUrl)}"/>`,
+    `  <link rel="alternate" href="${escapeXml(options.homeUrl)}"/>`,
+    '  <author><name>GW2 Pathfinder</name></author>',
+    ...items,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+// JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+export function buildJsonFeed(entries: FeedEntry[], options: FeedOptions) {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: options.title,
+    home_page_url: options.homeUrl,
+    feed_url: options.selfUrl,
+    items: entries.map(entry => ({
+      id: entryId(entry),
+      url: wikiUrl(entry.name),
+      title: entryTitle(entry),
+      content_html: entryHtml(entry),
+      summary: stripMarkup(entry.description || entry.requirement || ''),
+      ...(entry.icon ? { image: entry.icon } : {}),
+      date_modified: new Date(entry.changedAt).toISOString(),
+      tags: entry.breadcrumb,
+      _gw2_pathfinder: {
+        achievement_id: entry.achievementId,
+        change_type: entry.changeType,
+        changed_fields: entry.changedFields,
+        rewards: (entry.rewards || []).map(describeReward),
+      },
+    })),
+  };
+}
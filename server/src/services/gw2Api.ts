@@ -1,4 +1,16 @@
-const GW2_API_BASE = 'https://api.guildwars2.com/v2';
+import { gw2Client } from './gw2Client.js';
+
+// GW2_API_BASE points the backend at another upstream, e.g. the local stand-in (src/dev/gw2StandIn.ts)
+export const GW2_API_BASE = (process.env.GW2_API_BASE || 'https://api.guildwars2.com/v2').replace(/\/$/, '');
+
+// Languages served by the GW2 API through ?lang= (English is the default and the base dataset)
+export const GW2_LANGUAGES = ['en', 'de', 'fr', 'es', 'zh'] as const;
+export type Gw2Language = typeof GW2_LANGUAGES[number];
+
+function withLang(url: string, lang: Gw2Language): string {
+  if (lang === 'en') return url;
+  return `${url}${url.includes('?') ? '&' : '?'}lang=${lang}`;
+}
 
 export interface AchievementGroup {
   id: string;
@@ -30,6 +42,13 @@ export interface AchievementReward {
   title?: string;
 }
 
+// One step of a collection-style achievement; UserProgress.bits lists the indexes done
+export interface AchievementBit {
+  type: 'Item' | 'Skin' | 'Minipet' | 'Text';
+  id?: number;
+  text?: string;
+}
+
 export interface Item {
   id: number;
   name: string;
@@ -47,6 +66,27 @@ export interface Title {
   name: string;
 }
 
+export interface Skin {
+  id: number;
+  name: string;
+  type: string;
+  flags?: string[];
+  restrictions?: string[];
+  icon?: string;
+  rarity?: string;
+  description?: string;
+  details?: any;
+}
+
+export interface Mini {
+  id: number;
+  name: string;
+  unlock?: string;
+  icon?: string;
+  order?: number;
+  item_id?: number;
+}
+
 export interface Achievement {
   id: number;
   icon?: string;
@@ -59,67 +99,40 @@ export interface Achievement {
   tiers: AchievementTier[];
   rewards?: AchievementReward[];
   prerequisites?: number[];
+  bits?: AchievementBit[];
+  // Most AP a Repeatable achievement can award across all repeats
+  point_cap?: number;
 }
 
-async function fetchWithBackoff(url: string, retries = 3, delay = 1000): Promise<any> {
-  try {
-    const res = await fetch(url);
-    if (!res.ok) {
-      if (res.status === 429 && retries > 0) {
-        await new Promise(r => setTimeout(r, delay));
-        return fetchWithBackoff(url, retries - 1, delay * 2);
-      }
-      throw new Error(`API Error: ${res.status}`);
-    }
-    return res.json();
-  } catch (err) {
-    if (retries > 0) {
-      await new Promise(r => setTimeout(r, delay));
-      return fetchWithBackoff(url, retries - 1, delay * 2);
-    }
-    throw err;
-  }
-}
-
-export async function fetchAllGroups(): Promise<AchievementGroup[]> {
-  const groupIds = await fetchWithBackoff(`${GW2_API_BASE}/achievements/groups`);
+export async function fetchAllGroups(lang: Gw2Language = 'en'): Promise<AchievementGroup[]> {
+  const groupIds = await gw2Client.requestJson<string[]>(`${GW2_API_BASE}/achievements/groups`);
+  // Fired together, but the shared client bounds how many are actually in flight
   const groups = await Promise.all(
-    groupIds.map((id: string) => fetchWithBackoff(`${GW2_API_BASE}/achievements/groups/${id}`))
+    groupIds.map(id =>
+      gw2Client.requestJson<AchievementGroup>(withLang(`${GW2_API_BASE}/achievements/groups/${id}`, lang))
+    )
   );
   return groups;
 }
 
-export async function fetchCategories(ids: number[]): Promise<AchievementCategory[]> {
-  if (ids.length === 0) return [];
-  
-  const chunks = [];
-  for (let i = 0; i < ids.length; i += 200) {
-    chunks.push(ids.slice(i, i + 200));
-  }
-  
-  const results = await Promise.all(
-    chunks.map(chunk => fetchWithBackoff(`${GW2_API_BASE}/achievements/categories?ids=${chunk.join(',')}`))
-  );
-  
-  return results.flat();
+// Every ID the API currently lists for an endpoint (e.g. /achievements), used to spot removed records
+export async function fetchIdList<T extends string | number = number>(path: string): Promise<T[]> {
+  return gw2Client.requestJson<T[]>(`${GW2_API_BASE}${path}`);
 }
 
-export async function fetchAchievements(ids: number[]): Promise<Achievement[]> {
-  if (ids.length === 0) return [];
-  
-  const chunks = [];
-  for (let i = 0; i < ids.length; i += 200) {
-    chunks.push(ids.slice(i, i + 200));
-  }
-  
-  const results = await Promise.all(
-    chunks.map(chunk => fetchWithBackoff(`${GW2_API_BASE}/achievements?ids=${chunk.join(',')}`))
-  );
-  
-  return results.flat();
+// Persists the records of each fetched ID chunk, so an interrupted fetch can resume
+// from the chunks that failed instead of downloading everything again
+export interface ChunkCheckpoint<T> {
+  load(chunk: number[]): Promise<T[] | null>;
+  save(chunk: number[], records: T[]): Promise<void>;
 }
 
-export async function fetchItems(ids: number[]): Promise<Item[]> {
+async function fetchInChunks<T>(
+  path: string,
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<T>,
+  lang: Gw2Language = 'en'
+): Promise<T[]> {
   if (ids.length === 0) return [];
   
   // GW2 API supports up to 200 IDs per request
@@ -128,26 +141,68 @@ export async function fetchItems(ids: number[]): Promise<Item[]> {
     chunks.push(ids.slice(i, i + 200));
   }
   
-  const results = await Promise.all(
-    chunks.map(chunk => fetchWithBackoff(`${GW2_API_BASE}/items?ids=${chunk.join(',')}`))
+  // Let every chunk settle so the successful ones are checkpointed even if another fails
+  const results = await Promise.allSettled(
+    chunks.map(async chunk => {
+      const saved = checkpoint ? await checkpoint.load(chunk) : null;
+      if (saved) return saved;
+
+      const records = await gw2Client.requestJson<T[]>(withLang(`${GW2_API_BASE}${path}?ids=${chunk.join(',')}`, lang));
+      if (checkpoint) await checkpoint.save(chunk, records);
+      return records;
+    })
   );
   
-  return results.flat();
+  const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failed) throw failed.reason;
+  
+  return results.flatMap(r => (r.status === 'fulfilled' ? r.value : []));
 }
 
-export async function fetchTitles(ids: number[]): Promise<Title[]> {
-  if (ids.length === 0) return [];
-  
-  // GW2 API supports up to 200 IDs per request
-  const chunks = [];
-  for (let i = 0; i < ids.length; i += 200) {
-    chunks.push(ids.slice(i, i + 200));
-  }
-  
-  const results = await Promise.all(
-    chunks.map(chunk => fetchWithBackoff(`${GW2_API_BASE}/titles?ids=${chunk.join(',')}`))
-  );
-  
-  return results.flat();
+export async function fetchCategories(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<AchievementCategory>,
+  lang: Gw2Language = 'en'
+): Promise<AchievementCategory[]> {
+  return fetchInChunks('/achievements/categories', ids, checkpoint, lang);
+}
+
+export async function fetchAchievements(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<Achievement>,
+  lang: Gw2Language = 'en'
+): Promise<Achievement[]> {
+  return fetchInChunks('/achievements', ids, checkpoint, lang);
 }
 
+export async function fetchItems(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<Item>,
+  lang: Gw2Language = 'en'
+): Promise<Item[]> {
+  return fetchInChunks('/items', ids, checkpoint, lang);
+}
+
+export async function fetchTitles(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<Title>,
+  lang: Gw2Language = 'en'
+): Promise<Title[]> {
+  return fetchInChunks('/titles', ids, checkpoint, lang);
+}
+
+export async function fetchSkins(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<Skin>,
+  lang: Gw2Language = 'en'
+): Promise<Skin[]> {
+  return fetchInChunks('/skins', ids, checkpoint, lang);
+}
+
+export async function fetchMinis(
+  ids: number[],
+  checkpoint?: ChunkCheckpoint<Mini>,
+  lang: Gw2Language = 'en'
+): Promise<Mini[]> {
+  return fetchInChunks('/minis', ids, checkpoint, lang);
+}
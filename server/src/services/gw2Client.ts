@@ -0,0 +1,245 @@
+// Shared outbound HTTP client for the GW2 API.
+// Every upstream request goes through one instance, which enforces:
+// - a token-bucket rate limit (sustained rate plus a small burst)
+// - a cap on requests in flight
+// - retries with exponential backoff, honouring Retry-After on 429
+// - a circuit breaker that fails fast while the API keeps erroring
+
+export interface Gw2ClientOptions {
+  ratePerSecond: number;
+  burst: number;
+  maxConcurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  // Consecutive failed attempts (5xx or network errors) that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface Gw2ClientStatus {
+  circuit: CircuitState;
+  inFlight: number;
+  queued: number;
+  availableTokens: number;
+}
+
+export interface Gw2Client {
+  requestJson<T = unknown>(url: string, init?: RequestInit): Promise<T>;
+  status(): Gw2ClientStatus;
+}
+
+export class Gw2ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'Gw2ApiError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAt: number) {
+    super(`GW2 API circuit is open; retry after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function createGw2Client(options: Gw2ClientOptions): Gw2Client {
+  // Token bucket
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+  // Set by a 429 with Retry-After: nobody sends until then
+  let pausedUntil = 0;
+
+  // Concurrency slots; a released slot is handed straight to the next waiter
+  let inFlight = 0;
+  const waiting: Array<() => void> = [];
+
+  // Circuit breaker
+  let circuit: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let trialInFlight = false;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(options.burst, tokens + ((now - lastRefill) / 1000) * options.ratePerSecond);
+    lastRefill = now;
+  };
+
+  const takeToken = async () => {
+    for (;;) {
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / options.ratePerSecond) * 1000);
+    }
+  };
+
+  const acquireSlot = async () => {
+    if (inFlight < options.maxConcurrency) {
+      inFlight++;
+      return;
+    }
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      inFlight--;
+    }
+  };
+
+  // Throws if the circuit does not let this attempt through; returns whether it is the half-open trial
+  const enterCircuit = (): boolean => {
+    if (circuit === 'open') {
+      if (Date.now() < openUntil) throw new CircuitOpenError(openUntil);
+      circuit = 'half-open';
+    }
+    if (circuit === 'half-open') {
+      if (trialInFlight) throw new CircuitOpenError(Date.now() + options.cooldownMs);
+      trialInFlight = true;
+      return true;
+    }
+    return false;
+  };
+
+  const recordSuccess = (isTrial: boolean) => {
+    if (isTrial) trialInFlight = false;
+    consecutiveFailures = 0;
+    if (circuit !== 'closed') {
+      console.log('GW2 API circuit closed');
+      circuit = 'closed';
+    }
+  };
+
+  const recordFailure = (isTrial: boolean) => {
+    if (isTrial) trialInFlight = false;
+    consecutiveFailures++;
+    if (isTrial || (circuit === 'closed' && consecutiveFailures >= options.failureThreshold)) {
+      circuit = 'open';
+      openUntil = Date.now() + options.cooldownMs;
+      console.warn(`GW2 API circuit opened after ${consecutiveFailures} consecutive failures`);
+    }
+  };
+
+  // A settled attempt that was neither a success nor an upstream failure (e.g. 429, 404)
+  const recordNeutral = (isTrial: boolean) => {
+    if (isTrial) trialInFlight = false;
+  };
+
+  const backoff = (attempt: number) => {
+    const delay = options.baseDelayMs * 2 ** attempt;
+    return delay + Math.random() * delay * 0.25;
+  };
+
+  async function requestJson<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const isTrial = enterCircuit();
+      let res: Response;
+
+      await acquireSlot();
+      try {
+        await takeToken();
+        res = await fetch(url, init);
+      } catch (error) {
+        // Network error
+        recordFailure(isTrial);
+        if (attempt >= options.maxRetries) throw error;
+        await sleep(backoff(attempt));
+        continue;
+      } finally {
+        releaseSlot();
+      }
+
+      if (res.ok) {
+        recordSuccess(isTrial);
+        return res.json() as Promise<T>;
+      }
+
+      if (res.status === 429) {
+        recordNeutral(isTrial);
+        if (attempt >= options.maxRetries) {
+          throw new Gw2ApiError(429, 'API Error: 429 (rate limited)');
+        }
+        const retryAfter = parseRetryAfter(res.headers.get('retry-after')) ?? backoff(attempt);
+        // Pause every caller, not just this one, until the API lets us back in
+        pausedUntil = Math.max(pausedUntil, Date.now() + retryAfter);
+        tokens = 0;
+        continue;
+      }
+
+      if (res.status >= 500) {
+        recordFailure(isTrial);
+        if (attempt >= options.maxRetries) {
+          throw new Gw2ApiError(res.status, `API Error: ${res.status}`);
+        }
+        await sleep(backoff(attempt));
+        continue;
+      }
+
+      // Other 4xx: the request itself is wrong (bad key, unknown IDs); retrying will not help
+      recordNeutral(isTrial);
+      let detail = '';
+      try {
+        const body = (await res.json()) as { text?: unknown } | null;
+        if (body && typeof body.text === 'string') detail = `: ${body.text}`;
+      } catch {
+        // Body was not JSON
+      }
+      throw new Gw2ApiError(res.status, `API Error: ${res.status}${detail}`);
+    }
+  }
+
+  return {
+    requestJson,
+    status() {
+      refill();
+      if (circuit === 'open' && Date.now() >= openUntil) circuit = 'half-open';
+      return {
+        circuit,
+        inFlight,
+        queued: waiting.length,
+        availableTokens: Math.floor(tokens),
+      };
+    },
+  };
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value > 0 ? value : fallback;
+};
+
+// The single client instance shared by the sync and every backend route that calls upstream
+export const gw2Client = createGw2Client({
+  ratePerSecond: envNumber('GW2_API_RATE_PER_SECOND', 5),
+  burst: envNumber('GW2_API_BURST', 10),
+  maxConcurrency: envNumber('GW2_API_MAX_CONCURRENCY', 6),
+  maxRetries: envNumber('GW2_API_MAX_RETRIES', 4),
+  baseDelayMs: envNumber('GW2_API_RETRY_DELAY_MS', 1000),
+  failureThreshold: envNumber('GW2_API_CIRCUIT_THRESHOLD', 5),
+  cooldownMs: envNumber('GW2_API_CIRCUIT_COOLDOWN_MS', 30000),
+});
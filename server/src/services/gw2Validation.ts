@@ -0,0 +1,188 @@
+import {
+  AchievementGroup,
+  AchievementCategory,
+  Achievement,
+  Item,
+  Title,
+  Skin,
+  Mini,
+  Gw2Language,
+} from './gw2Api.js';
+
+// Runtime checks of GW2 API payloads against the interfaces in gw2Api.ts. The sync drops
+// records that fail them (and quarantines them in sync_rejects) instead of writing them.
+
+// Record type fetched from the API for each entity
+export interface Gw2Records {
+  groups: AchievementGroup;
+  categories: AchievementCategory;
+  achievements: Achievement;
+  items: Item;
+  titles: Title;
+  skins: Skin;
+  minis: Mini;
+}
+
+export type Gw2Entity = keyof Gw2Records;
+
+export interface RejectedRecord {
+  entity: Gw2Entity;
+  // The record's ID as a string, or null when it has no usable ID
+  entityId: string | null;
+  lang: Gw2Language;
+  reason: string;
+  payload: unknown;
+}
+
+export interface ValidationResult<T> {
+  valid: T[];
+  rejected: RejectedRecord[];
+}
+
+// Reward and collection bit types the sync knows how to store and link
+export const REWARD_TYPES = ['Coins', 'Item', 'Mastery', 'Title'];
+export const BIT_TYPES = ['Item', 'Skin', 'Minipet', 'Text'];
+export const ACHIEVEMENT_TYPES = ['Default', 'ItemSet'];
+
+// A rule returns what is wrong with a value, or null if it is fine
+type Rule = (value: unknown, path: string) => string | null;
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'a list' : typeof value === 'string' ? `"${value}"` : typeof value;
+
+const expect = (expected: string, test: (value: unknown) => boolean): Rule =>
+  (value, path) => {
+    if (value === undefined) return `${path} is missing`;
+    return test(value) ? null : `${path} must be ${expected} (got ${describe(value)})`;
+  };
+
+const integer = expect('an integer', Number.isInteger);
+const text = expect('a string', value => typeof value === 'string');
+const anyObject = expect('an object', value => typeof value === 'object' && value !== null && !Array.isArray(value));
+
+const oneOf = (values: string[]): Rule =>
+  expect(`one of ${values.join(', ')}`, value => typeof value === 'string' && values.includes(value));
+
+const optional = (rule: Rule): Rule =>
+  (value, path) => (value === undefined || value === null ? null : rule(value, path));
+
+const listOf = (rule: Rule, { nonEmpty = false } = {}): Rule =>
+  (value, path) => {
+    if (value === undefined) return `${path} is missing`;
+    if (!Array.isArray(value)) return `${path} must be a list (got ${describe(value)})`;
+    if (nonEmpty && value.length === 0) return `${path} must not be empty`;
+    for (let i = 0; i < value.length; i++) {
+      const problem = rule(value[i], `${path}[${i}]`);
+      if (problem) return problem;
+    }
+    return null;
+  };
+
+const object = (fields: Record<string, Rule>): Rule =>
+  (value, path) => {
+    const problem = anyObject(value, path || 'record');
+    if (problem) return problem;
+    for (const [field, rule] of Object.entries(fields)) {
+      const fieldProblem = rule((value as Record<string, unknown>)[field], path ? `${path}.${field}` : field);
+      if (fieldProblem) return fieldProblem;
+    }
+    return null;
+  };
+
+const SCHEMAS: Record<Gw2Entity, Rule> = {
+  groups: object({
+    id: expect('a non-empty string', value => typeof value === 'string' && value.length > 0),
+    name: text,
+    description: text,
+    order: integer,
+    categories: listOf(integer),
+  }),
+  categories: object({
+    id: integer,
+    name: text,
+    description: text,
+    order: integer,
+    icon: optional(text),
+    achievements: listOf(integer),
+  }),
+  achievements: object({
+    id: integer,
+    icon: optional(text),
+    name: text,
+    description: text,
+    requirement: text,
+    locked_text: optional(text),
+    type: oneOf(ACHIEVEMENT_TYPES),
+    flags: listOf(text),
+    tiers: listOf(object({ count: integer, points: integer }), { nonEmpty: true }),
+    rewards: optional(listOf(object({
+      type: oneOf(REWARD_TYPES),
+      id: optional(integer),
+      count: optional(integer),
+      region: optional(text),
+    }))),
+    prerequisites: optional(listOf(integer)),
+    bits: optional(listOf(object({ type: oneOf(BIT_TYPES), id: optional(integer), text: optional(text) }))),
+    point_cap: optional(integer),
+  }),
+  items: object({
+    id: integer,
+    name: text,
+    description: optional(text),
+    type: optional(text),
+    rarity: optional(text),
+    level: optional(integer),
+    vendor_value: optional(integer),
+    icon: optional(text),
+    details: optional(anyObject),
+  }),
+  titles: object({
+    id: integer,
+    name: text,
+  }),
+  skins: object({
+    id: integer,
+    name: text,
+    type: text,
+    flags: optional(listOf(text)),
+    restrictions: optional(listOf(text)),
+    icon: optional(text),
+    rarity: optional(text),
+    description: optional(text),
+    details: optional(anyObject),
+  }),
+  minis: object({
+    id: integer,
+    name: text,
+    unlock: optional(text),
+    icon: optional(text),
+    order: optional(integer),
+    item_id: optional(integer),
+  }),
+};
+
+function recordId(record: unknown): string | null {
+  if (typeof record !== 'object' || record === null) return null;
+  const id = (record as Record<string, unknown>).id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+// Split fetched records into those that match their interface and those that do not
+export function validateRecords<E extends Gw2Entity>(
+  entity: E,
+  records: Gw2Records[E][],
+  lang: Gw2Language = 'en'
+): ValidationResult<Gw2Records[E]> {
+  const schema = SCHEMAS[entity];
+  const valid: Gw2Records[E][] = [];
+  const rejected: RejectedRecord[] = [];
+  for (const record of records) {
+    const reason = schema(record, '');
+    if (reason) {
+      rejected.push({ entity, entityId: recordId(record), lang, reason, payload: record });
+    } else {
+      valid.push(record);
+    }
+  }
+  return { valid, rejected };
+}
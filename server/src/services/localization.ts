@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { pool } from '../db/connection.js';
+import { GW2_LANGUAGES, Gw2Language } from './gw2Api.js';
+
+export type TranslatableEntity = 'group' | 'category' | 'achievement' | 'item' | 'title' | 'skin' | 'mini';
+
+// Text fields the GW2 API localizes for each entity
+export const TRANSLATED_FIELDS: Record<TranslatableEntity, string[]> = {
+  group: ['name', 'description'],
+  category: ['name', 'description'],
+  // bits is stored whole, since its Text entries are localized
+  achievement: ['name', 'description', 'requirement', 'locked_text', 'bits'],
+  item: ['name', 'description'],
+  title: ['name'],
+  skin: ['name', 'description'],
+  mini: ['name', 'unlock'],
+};
+
+export interface Translation {
+  entityType: TranslatableEntity;
+  entityId: string;
+  lang: Gw2Language;
+  fields: Record<string, unknown>;
+}
+
+// Non-English languages synced alongside the English base dataset
+export function getSyncLanguages(): Gw2Language[] {
+  const configured = process.env.GW2_SYNC_LANGUAGES;
+  const requested = configured !== undefined
+    ? configured.split(',').map(lang => lang.trim().toLowerCase()).filter(Boolean)
+    : GW2_LANGUAGES.filter(lang => lang !== 'en');
+  return requested.filter((lang): lang is Gw2Language => isSupportedLanguage(lang) && lang !== 'en');
+}
+
+export function isSupportedLanguage(lang: string): lang is Gw2Language {
+  return (GW2_LANGUAGES as readonly string[]).includes(lang);
+}
+
+// Build a translation row from a record fetched with ?lang=
+export function toTranslation(
+  entityType: TranslatableEntity,
+  record: { id: string | number } & object,
+  lang: Gw2Language
+): Translation {
+  const fields: Record<string, unknown> = {};
+  for (const field of TRANSLATED_FIELDS[entityType]) {
+    const value = (record as Record<string, unknown>)[field];
+    if (typeof value === 'string' && value !== '') {
+      fields[field] = value;
+    } else if (Array.isArray(value) && value.some(entry => typeof entry?.text === 'string')) {
+      fields[field] = value;
+    }
+  }
+  return { entityType, entityId: String(record.id), lang, fields };
+}
+
+// Pick the best supported language from an Accept-Language header
+export function parseAcceptLanguage(header: string | undefined): Gw2Language | null {
+  if (!header) return null;
+
+  const candidates = header
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find(p => p.trim().startsWith('q='));
+      return { lang: tag.trim().toLowerCase().split('-')[0], q: q ? parseFloat(q.trim().slice(2)) : 1 };
+    })
+    .filter(c => c.lang && !isNaN(c.q) && c.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  const match = candidates.find(c => isSupportedLanguage(c.lang));
+  return match ? (match.lang as Gw2Language) : null;
+}
+
+// Resolve the response language from ?lang= or Accept-Language into res.locals.lang.
+// An explicit but unsupported ?lang= is rejected; an unsupported header falls back to English.
+export function languageMiddleware(req: Request, res: Response, next: NextFunction) {
+  const requested = req.query.lang;
+  let lang: Gw2Language;
+
+  if (typeof requested === 'string' && requested !== '') {
+    const normalized = requested.toLowerCase();
+    if (!isSupportedLanguage(normalized)) {
+      return res.status(400).json({
+        error: `Unsupported language '${requested}'. Supported: ${GW2_LANGUAGES.join(', ')}`,
+      });
+    }
+    lang = normalized;
+  } else {
+    lang = parseAcceptLanguage(req.get('Accept-Language')) || 'en';
+  }
+
+  res.locals.lang = lang;
+  res.setHeader('Content-Language', lang);
+  res.vary('Accept-Language');
+  next();
+}
+
+// Overlay translated fields onto rows (anything with an id). Missing translations fall back to English.
+export async function translateRows<T extends { id: string | number }>(
+  entityType: TranslatableEntity,
+  rows: T[],
+  lang: Gw2Language
+): Promise<T[]> {
+  if (lang === 'en' || rows.length === 0) return rows;
+
+  const result = await pool.query(
+    `SELECT entity_id, fields FROM translations
+     WHERE entity_type = $1 AND lang = $2 AND entity_id = ANY($3::text[])`,
+    [entityType, lang, rows.map(row => String(row.id))]
+  );
+  const byId = new Map<string, Record<string, unknown>>(
+    result.rows.map(row => [row.entity_id, row.fields])
+  );
+
+  return rows.map(row => {
+    const fields = byId.get(String(row.id));
+    return fields ? { ...row, ...fields } : row;
+  });
+}
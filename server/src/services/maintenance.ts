@@ -0,0 +1,212 @@
+import { pool } from '../db/connection.js';
+import { SyncRun, listSyncRuns } from './syncRuns.js';
+import { SyncAlreadyRunningError, tryAcquireSyncLock, findActiveSyncRunId } from './syncLock.js';
+
+// Dataset maintenance used by the admin CLI: statistics, integrity checks and purging
+// retired records.
+
+export interface TableStats {
+  total: number;
+  // Rows marked retired; null for tables that are never retired
+  retired: number | null;
+}
+
+export interface DatasetStats {
+  tables: Record<string, TableStats>;
+  relationships: { groupCategories: number; categoryAchievements: number };
+  // Translations per language
+  translations: Record<string, number>;
+  historyVersions: number;
+  lastSync: SyncRun | null;
+}
+
+export interface IntegrityIssue {
+  check: string;
+  description: string;
+  count: number;
+  // The first few offending IDs
+  sample: Array<string | number>;
+}
+
+export interface PurgeOptions {
+  // Only purge records retired before this time (default: every retired record)
+  before?: Date;
+  // Count what would be purged without deleting anything
+  dryRun?: boolean;
+}
+
+export interface PurgeResult {
+  groups: number;
+  categories: number;
+  achievements: number;
+  translations: number;
+}
+
+const RETIRABLE_TABLES = ['achievement_groups', 'achievement_categories', 'achievements'];
+const OTHER_TABLES = ['items', 'titles', 'skins', 'minis'];
+
+// Tables that reward and bit entries of each type refer to
+const REFERENCE_TABLES: Record<string, string> = {
+  Item: 'items',
+  Title: 'titles',
+  Skin: 'skins',
+  Minipet: 'minis',
+};
+
+const ISSUE_SAMPLE_SIZE = 20;
+
+export async function getDatasetStats(): Promise<DatasetStats> {
+  const tables: Record<string, TableStats> = {};
+  for (const table of RETIRABLE_TABLES) {
+    const result = await pool.query(
+      `SELECT COUNT(*)::int AS total, COUNT(retired_at)::int AS retired FROM ${table}`
+    );
+    tables[table] = result.rows[0];
+  }
+  for (const table of OTHER_TABLES) {
+    const result = await pool.query(`SELECT COUNT(*)::int AS total FROM ${table}`);
+    tables[table] = { total: result.rows[0].total, retired: null };
+  }
+
+  const relationships = await pool.query(
+    `SELECT
+       (SELECT COUNT(*)::int FROM group_categories) AS group_categories,
+       (SELECT COUNT(*)::int FROM category_achievements) AS category_achievements`
+  );
+  const translations = await pool.query(
+    `SELECT lang, COUNT(*)::int AS count FROM translations GROUP BY lang ORDER BY lang`
+  );
+  const history = await pool.query(`SELECT COUNT(*)::int AS count FROM achievement_history`);
+  const [lastSync] = await listSyncRuns(1);
+
+  return {
+    tables,
+    relationships: {
+      groupCategories: relationships.rows[0].group_categories,
+      categoryAchievements: relationships.rows[0].category_achievements,
+    },
+    translations: Object.fromEntries(translations.rows.map(row => [row.lang, row.count])),
+    historyVersions: history.rows[0].count,
+    lastSync: lastSync ?? null,
+  };
+}
+
+async function collectIssue(check: string, description: string, sql: string, params: unknown[] = []) {
+  const result = await pool.query(sql, params);
+  const ids = result.rows.map(row => row.id);
+  return { check, description, count: ids.length, sample: ids.slice(0, ISSUE_SAMPLE_SIZE) };
+}
+
+// Check that every live record is reachable and every reference resolves. Returns only the
+// checks that found problems; an empty list means the dataset is consistent.
+export async function checkIntegrity(): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [
+    await collectIssue(
+      'empty-groups',
+      'Live groups without any live category',
+      `SELECT g.id FROM achievement_groups g
+       WHERE g.retired_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM group_categories gc
+           JOIN achievement_categories c ON c.id = gc.category_id AND c.retired_at IS NULL
+           WHERE gc.group_id = g.id
+         )
+       ORDER BY g.id`
+    ),
+    await collectIssue(
+      'orphan-categories',
+      'Live categories not linked from any live group',
+      `SELECT c.id FROM achievement_categories c
+       WHERE c.retired_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM group_categories gc
+           JOIN achievement_groups g ON g.id = gc.group_id AND g.retired_at IS NULL
+           WHERE gc.category_id = c.id
+         )
+       ORDER BY c.id`
+    ),
+    await collectIssue(
+      'orphan-achievements',
+      'Live achievements not linked from any live category',
+      `SELECT a.id FROM achievements a
+       WHERE a.retired_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM category_achievements ca
+           JOIN achievement_categories c ON c.id = ca.category_id AND c.retired_at IS NULL
+           WHERE ca.achievement_id = a.id
+         )
+       ORDER BY a.id`
+    ),
+  ];
+
+  for (const [type, table] of Object.entries(REFERENCE_TABLES)) {
+    issues.push(
+      await collectIssue(
+        `missing-${table}`,
+        `${type} IDs in live achievement rewards or bits with no row in ${table}`,
+        `SELECT DISTINCT (e->>'id')::int AS id
+         FROM achievements a,
+              jsonb_array_elements(COALESCE(a.rewards, '[]'::jsonb) || COALESCE(a.bits, '[]'::jsonb)) e
+         WHERE a.retired_at IS NULL
+           AND e->>'type' = $1
+           AND e ? 'id'
+           AND NOT EXISTS (SELECT 1 FROM ${table} t WHERE t.id = (e->>'id')::int)
+         ORDER BY id`,
+        [type]
+      )
+    );
+  }
+
+  return issues.filter(issue => issue.count > 0);
+}
+
+// Delete retired groups, categories and achievements along with their links and translations.
+// Their change history is kept. Takes the sync lock, so it never runs alongside a sync;
+// throws SyncAlreadyRunningError if one is running.
+export async function purgeRetired(options: PurgeOptions = {}): Promise<PurgeResult> {
+  const lock = await tryAcquireSyncLock();
+  if (!lock) {
+    throw new SyncAlreadyRunningError(await findActiveSyncRunId());
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const before = options.before ?? null;
+
+    const purge = async (table: string, entityType: string) => {
+      const deleted = await client.query(
+        `DELETE FROM ${table}
+         WHERE retired_at IS NOT NULL AND ($1::timestamp IS NULL OR retired_at < $1)
+         RETURNING id`,
+        [before]
+      );
+      const ids = deleted.rows.map(row => String(row.id));
+      const translations = await client.query(
+        `DELETE FROM translations WHERE entity_type = $1 AND entity_id = ANY($2)`,
+        [entityType, ids]
+      );
+      return { count: ids.length, translations: translations.rowCount || 0 };
+    };
+
+    // Group and category links go with them (ON DELETE CASCADE)
+    const achievements = await purge('achievements', 'achievement');
+    const categories = await purge('achievement_categories', 'category');
+    const groups = await purge('achievement_groups', 'group');
+
+    // A dry run does the work and rolls it back, so the counts match a real purge exactly
+    await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+    return {
+      groups: groups.count,
+      categories: categories.count,
+      achievements: achievements.count,
+      translations: groups.translations + categories.translations + achievements.translations,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    await lock.release();
+  }
+}
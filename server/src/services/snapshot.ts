@@ -0,0 +1,253 @@
+import { gzipSync, gunzipSync } from 'zlib';
+import { readFileSync } from 'fs';
+import { pool } from '../db/connection.js';
+import { SyncAlreadyRunningError, tryAcquireSyncLock, findActiveSyncRunId } from './syncLock.js';
+
+// Portable dataset snapshots: every synced table dumped to gzipped JSON behind a version header,
+// so a dataset can be moved to an instance that cannot reach the GW2 API.
+// Content hashes travel with the rows, so the first sync after an import only writes real changes.
+
+export const SNAPSHOT_FORMAT = 'gw2-pathfinder-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  created_at: string;
+  // Latest schema migration applied where the snapshot was taken
+  schema_version: number | null;
+  // Rows per table
+  counts: Record<string, number>;
+}
+
+export interface Snapshot {
+  header: SnapshotHeader;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+export interface ImportOptions {
+  // Replace an existing dataset instead of refusing to import over it
+  replace?: boolean;
+}
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+// An import without replace found a dataset already in the database
+export class DatasetExistsError extends Error {
+  constructor() {
+    super('The database already holds a dataset; import with replace to overwrite it');
+    this.name = 'DatasetExistsError';
+  }
+}
+
+interface SnapshotTable {
+  name: string;
+  columns: string[];
+  orderBy: string;
+}
+
+// In foreign key order: a table only refers to tables above it
+const SNAPSHOT_TABLES: SnapshotTable[] = [
+  {
+    name: 'achievement_groups',
+    columns: ['id', 'name', 'description', 'order', 'content_hash', 'retired_at'],
+    orderBy: 'id',
+  },
+  {
+    name: 'achievement_categories',
+    columns: ['id', 'name', 'description', 'order', 'icon', 'content_hash', 'retired_at'],
+    orderBy: 'id',
+  },
+  {
+    name: 'achievements',
+    columns: [
+      'id', 'icon', 'name', 'description', 'requirement', 'locked_text', 'type', 'flags', 'tiers',
+      'rewards', 'prerequisites', 'bits', 'point_cap', 'content_hash', 'retired_at',
+    ],
+    orderBy: 'id',
+  },
+  { name: 'group_categories', columns: ['group_id', 'category_id'], orderBy: 'group_id, category_id' },
+  { name: 'category_achievements', columns: ['category_id', 'achievement_id'], orderBy: 'category_id, achievement_id' },
+  {
+    name: 'items',
+    columns: ['id', 'name', 'description', 'type', 'rarity', 'level', 'vendor_value', 'icon', 'details', 'content_hash'],
+    orderBy: 'id',
+  },
+  { name: 'titles', columns: ['id', 'name', 'content_hash'], orderBy: 'id' },
+  {
+    name: 'skins',
+    columns: ['id', 'name', 'description', 'type', 'rarity', 'icon', 'flags', 'restrictions', 'details', 'content_hash'],
+    orderBy: 'id',
+  },
+  {
+    name: 'minis',
+    columns: ['id', 'name', 'unlock', 'icon', 'order', 'item_id', 'rarity', 'content_hash'],
+    orderBy: 'id',
+  },
+  {
+    name: 'translations',
+    columns: ['entity_type', 'entity_id', 'lang', 'fields', 'content_hash'],
+    orderBy: 'entity_type, entity_id, lang',
+  },
+];
+
+// Rows per INSERT when importing
+const IMPORT_BATCH_SIZE = 1000;
+
+const quote = (column: string) => `"${column}"`;
+
+// Timestamps are exported as text: TIMESTAMP columns have no time zone, so a round trip
+// through a JS Date would shift them by the server's offset
+const selectColumn = (column: string) =>
+  column === 'retired_at' ? `retired_at::text AS retired_at` : quote(column);
+
+async function latestMigration(): Promise<number | null> {
+  try {
+    const result = await pool.query(`SELECT MAX(version) AS version FROM schema_migrations`);
+    return result.rows[0].version;
+  } catch {
+    return null;
+  }
+}
+
+// Read every snapshot table in one transaction, so the snapshot is consistent with itself
+export async function exportSnapshot(): Promise<Snapshot> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    const tables: Snapshot['tables'] = {};
+    for (const table of SNAPSHOT_TABLES) {
+      const result = await client.query(
+        `SELECT ${table.columns.map(selectColumn).join(', ')} FROM ${table.name} ORDER BY ${table.orderBy}`
+      );
+      tables[table.name] = result.rows;
+    }
+    await client.query('COMMIT');
+
+    return {
+      header: {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        created_at: new Date().toISOString(),
+        schema_version: await latestMigration(),
+        counts: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length])),
+      },
+      tables,
+    };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export function encodeSnapshot(snapshot: Snapshot): Buffer {
+  return gzipSync(JSON.stringify(snapshot));
+}
+
+// Throws SnapshotError if the data is not a snapshot this version can import
+export function decodeSnapshot(data: Buffer): Snapshot {
+  let snapshot: Snapshot;
+  try {
+    snapshot = JSON.parse(gunzipSync(data).toString('utf-8'));
+  } catch {
+    throw new SnapshotError('Not a gzipped JSON snapshot');
+  }
+
+  const header = snapshot?.header;
+  if (!header || header.format !== SNAPSHOT_FORMAT) {
+    throw new SnapshotError(`Missing ${SNAPSHOT_FORMAT} header`);
+  }
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`Unsupported snapshot version ${header.version} (expected ${SNAPSHOT_VERSION})`);
+  }
+  if (typeof header.created_at !== 'string' || !header.counts || typeof header.counts !== 'object') {
+    throw new SnapshotError('Snapshot header is incomplete');
+  }
+  if (header.schema_version !== null && !Number.isInteger(header.schema_version)) {
+    throw new SnapshotError('Snapshot header has an invalid schema_version');
+  }
+  for (const table of SNAPSHOT_TABLES) {
+    if (!Array.isArray(snapshot.tables?.[table.name])) {
+      throw new SnapshotError(`Snapshot has no ${table.name} table`);
+    }
+    // A count that disagrees with the rows means the file was truncated or edited
+    if (header.counts[table.name] !== snapshot.tables[table.name].length) {
+      throw new SnapshotError(`Snapshot ${table.name} table does not match its header count`);
+    }
+  }
+  return snapshot;
+}
+
+export function readSnapshotFile(path: string): Snapshot {
+  return decodeSnapshot(readFileSync(path));
+}
+
+// Load a snapshot in a single transaction. Throws SnapshotError for a snapshot taken with a newer
+// schema than this database has, and DatasetExistsError rather than import over an existing
+// dataset, unless options.replace is set. Takes the sync lock, so it never runs alongside a
+// sync; throws SyncAlreadyRunningError if one is running. Returns the rows imported per table.
+export async function importSnapshot(snapshot: Snapshot, options: ImportOptions = {}): Promise<Record<string, number>> {
+  // Its tables may have columns this schema lacks; refuse before touching any data
+  const schemaVersion = await latestMigration();
+  const snapshotSchema = snapshot.header.schema_version;
+  if (snapshotSchema !== null && schemaVersion !== null && snapshotSchema > schemaVersion) {
+    throw new SnapshotError(
+      `Snapshot was taken at schema version ${snapshotSchema}, newer than this database (${schemaVersion}); upgrade first`
+    );
+  }
+
+  const lock = await tryAcquireSyncLock();
+  if (!lock) {
+    throw new SyncAlreadyRunningError(await findActiveSyncRunId());
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    if (!options.replace) {
+      const existing = await client.query(`SELECT EXISTS (SELECT 1 FROM achievement_groups) AS exists`);
+      if (existing.rows[0].exists) {
+        throw new DatasetExistsError();
+      }
+    }
+
+    // Clear in reverse foreign key order
+    for (const table of [...SNAPSHOT_TABLES].reverse()) {
+      await client.query(`DELETE FROM ${table.name}`);
+    }
+
+    const counts: Record<string, number> = {};
+    for (const table of SNAPSHOT_TABLES) {
+      const rows = snapshot.tables[table.name];
+      const columns = table.columns.map(quote).join(', ');
+      for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+        // Only the known columns are read from each row, whatever else the file contains
+        await client.query(
+          `INSERT INTO ${table.name} (${columns})
+           SELECT ${columns} FROM jsonb_populate_recordset(NULL::${table.name}, $1)`,
+          [JSON.stringify(rows.slice(i, i + IMPORT_BATCH_SIZE))]
+        );
+      }
+      counts[table.name] = rows.length;
+    }
+
+    // Checkpoints of an earlier failed sync belong to the dataset that was just replaced
+    await client.query(`DELETE FROM sync_checkpoints`);
+    await client.query('COMMIT');
+    return counts;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+    await lock.release();
+  }
+}
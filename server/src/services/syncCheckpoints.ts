@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import { pool } from '../db/connection.js';
+import { ChunkCheckpoint } from './gw2Api.js';
+
+// Checkpoints of failed runs older than this are not resumed; the data would be too stale
+const CHECKPOINT_MAX_AGE_HOURS = parseInt(process.env.SYNC_CHECKPOINT_MAX_AGE_HOURS || '6');
+
+// Chunk key used for steps that are checkpointed as a whole
+const WHOLE_STEP = '*';
+
+export interface CheckpointStore {
+  // Result of a whole step, if it was checkpointed
+  loadStep<T>(step: string): Promise<T | null>;
+  saveStep<T>(step: string, data: T): Promise<void>;
+  // Per-chunk checkpoint for the chunked fetch functions in gw2Api.ts
+  forChunks<T>(step: string): Promise<ChunkCheckpoint<T>>;
+}
+
+function chunkKey(chunk: number[]): string {
+  return createHash('sha1').update(chunk.join(',')).digest('hex');
+}
+
+export function createCheckpointStore(runId: number): CheckpointStore {
+  const save = async (step: string, key: string, payload: unknown) => {
+    await pool.query(
+      `INSERT INTO sync_checkpoints (run_id, step, chunk_key, payload)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (run_id, step, chunk_key) DO UPDATE SET payload = EXCLUDED.payload`,
+      [runId, step, key, JSON.stringify(payload)]
+    );
+  };
+
+  return {
+    async loadStep<T>(step: string): Promise<T | null> {
+      const result = await pool.query(
+        `SELECT payload FROM sync_checkpoints WHERE run_id = $1 AND step = $2 AND chunk_key = $3`,
+        [runId, step, WHOLE_STEP]
+      );
+      return result.rows.length > 0 ? result.rows[0].payload : null;
+    },
+
+    async saveStep<T>(step: string, data: T): Promise<void> {
+      await save(step, WHOLE_STEP, data);
+    },
+
+    async forChunks<T>(step: string): Promise<ChunkCheckpoint<T>> {
+      // Load every chunk of the step up front rather than one query per chunk
+      const result = await pool.query(
+        `SELECT chunk_key, payload FROM sync_checkpoints WHERE run_id = $1 AND step = $2`,
+        [runId, step]
+      );
+      const saved = new Map<string, T[]>(result.rows.map(row => [row.chunk_key, row.payload]));
+      if (saved.size > 0) {
+        console.log(`Resuming ${step} with ${saved.size} checkpointed chunk(s)`);
+      }
+
+      return {
+        async load(chunk: number[]) {
+          return saved.get(chunkKey(chunk)) || null;
+        },
+        async save(chunk: number[], records: T[]) {
+          await save(step, chunkKey(chunk), records);
+        },
+      };
+    },
+  };
+}
+
+// The most recent full sync, if it failed recently enough and left checkpoints behind.
+// Single-stage runs in between neither write checkpoints nor hide them.
+export async function findResumableRunId(): Promise<number | null> {
+  const result = await pool.query(
+    `SELECT r.id
+     FROM sync_runs r
+     WHERE r.id = (
+         SELECT id FROM sync_runs
+         WHERE status <> 'running' AND stage IS NULL
+         ORDER BY started_at DESC, id DESC LIMIT 1
+       )
+       AND r.status = 'failed'
+       AND r.started_at > CURRENT_TIMESTAMP - make_interval(hours => $1)
+       AND EXISTS (SELECT 1 FROM sync_checkpoints c WHERE c.run_id = r.id)`,
+    [CHECKPOINT_MAX_AGE_HOURS]
+  );
+  return result.rows.length > 0 ? result.rows[0].id : null;
+}
+
+// Carry the checkpoints of a failed run over to a new run, so they survive if it fails too
+export async function copyCheckpoints(fromRunId: number, toRunId: number): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO sync_checkpoints (run_id, step, chunk_key, payload)
+     SELECT $2, step, chunk_key, payload FROM sync_checkpoints WHERE run_id = $1
+     ON CONFLICT DO NOTHING`,
+    [fromRunId, toRunId]
+  );
+  return result.rowCount || 0;
+}
+
+// Once a sync has published, no earlier checkpoint is worth resuming
+export async function clearCheckpoints(): Promise<void> {
+  await pool.query(`DELETE FROM sync_checkpoints`);
+}
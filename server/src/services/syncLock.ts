@@ -0,0 +1,75 @@
+import { PoolClient } from 'pg';
+import { pool } from '../db/connection.js';
+
+// Session-level Postgres advisory lock shared by every backend replica.
+// The lock lives on a dedicated connection, so it is released automatically
+// if the process holding it dies.
+const SYNC_LOCK_NAME = 'gw2-pathfinder:sync';
+
+export class SyncAlreadyRunningError extends Error {
+  constructor(public readonly activeRunId: number | null) {
+    super(
+      activeRunId !== null
+        ? `A sync is already running (run ${activeRunId})`
+        : 'A sync is already running'
+    );
+    this.name = 'SyncAlreadyRunningError';
+  }
+}
+
+export interface SyncLock {
+  release(): Promise<void>;
+}
+
+// Try to take the sync lock without waiting. Returns null if another sync holds it.
+export async function tryAcquireSyncLock(): Promise<SyncLock | null> {
+  const client: PoolClient = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT pg_try_advisory_lock(hashtext($1)) AS acquired`,
+      [SYNC_LOCK_NAME]
+    );
+    if (!result.rows[0].acquired) {
+      client.release();
+      return null;
+    }
+  } catch (error) {
+    client.release();
+    throw error;
+  }
+
+  let released = false;
+  return {
+    async release() {
+      if (released) return;
+      released = true;
+      try {
+        await client.query(`SELECT pg_advisory_unlock(hashtext($1))`, [SYNC_LOCK_NAME]);
+        client.release();
+      } catch (error) {
+        // Drop the connection so the session (and its lock) goes away with it
+        client.release(error instanceof Error ? error : true);
+        console.error('Failed to release sync lock:', error);
+      }
+    },
+  };
+}
+
+// ID of the sync run currently marked as running, if any
+export async function findActiveSyncRunId(): Promise<number | null> {
+  const result = await pool.query(
+    `SELECT id FROM sync_runs WHERE status = 'running' ORDER BY started_at DESC, id DESC LIMIT 1`
+  );
+  return result.rows.length > 0 ? result.rows[0].id : null;
+}
+
+// Runs left in 'running' while nobody holds the lock were interrupted (e.g. the process crashed).
+// Only call this while holding the lock.
+export async function markInterruptedSyncRuns(): Promise<number> {
+  const result = await pool.query(
+    `UPDATE sync_runs
+     SET status = 'failed', finished_at = CURRENT_TIMESTAMP, error = 'Interrupted before completion'
+     WHERE status = 'running'`
+  );
+  return result.rowCount || 0;
+}
@@ -0,0 +1,34 @@
+import { pool } from '../db/connection.js';
+import { RejectedRecord } from './gw2Validation.js';
+
+export interface SyncReject {
+  id: number;
+  run_id: number;
+  entity_type: string;
+  entity_id: string | null;
+  lang: string;
+  reason: string;
+  payload: unknown;
+  created_at: string;
+}
+
+// Quarantine records that failed validation. Written outside the publish transaction, so
+// they are kept even if the sync fails later on.
+export async function recordSyncRejects(runId: number, rejected: RejectedRecord[]): Promise<void> {
+  if (rejected.length === 0) return;
+  await pool.query(
+    `INSERT INTO sync_rejects (run_id, entity_type, entity_id, lang, reason, payload)
+     SELECT $1, r.entity, r."entityId", r.lang, r.reason, r.payload
+     FROM jsonb_to_recordset($2) AS r(entity TEXT, "entityId" TEXT, lang TEXT, reason TEXT, payload JSONB)`,
+    // NUL characters are valid JSON but cannot be stored in JSONB
+    [runId, JSON.stringify(rejected).replace(/\\u0000/g, '')]
+  );
+}
+
+export async function listSyncRejects(runId: number): Promise<SyncReject[]> {
+  const result = await pool.query(
+    `SELECT * FROM sync_rejects WHERE run_id = $1 ORDER BY entity_type, lang, id`,
+    [runId]
+  );
+  return result.rows;
+}
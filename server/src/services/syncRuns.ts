@@ -0,0 +1,119 @@
+import { pool } from '../db/connection.js';
+
+export type SyncTrigger = 'cron' | 'startup' | 'manual' | 'cli';
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface SyncStepTiming {
+  name: string;
+  status: 'succeeded' | 'failed';
+  durationMs: number;
+}
+
+export interface SyncRun {
+  id: number;
+  trigger: SyncTrigger;
+  mode: string;
+  // Entity type refreshed by a single-stage sync; null for a full sync
+  stage: string | null;
+  status: SyncRunStatus;
+  resumed_from: number | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  steps: SyncStepTiming[];
+  counts: Record<string, unknown> | null;
+  error: string | null;
+}
+
+interface SyncRunRow {
+  id: number;
+  trigger: SyncTrigger;
+  mode: string;
+  stage: string | null;
+  status: SyncRunStatus;
+  resumed_from: number | null;
+  started_at: string;
+  finished_at: string | null;
+  steps: SyncStepTiming[] | null;
+  counts: Record<string, unknown> | null;
+  error: string | null;
+}
+
+function mapRun(row: SyncRunRow): SyncRun {
+  return {
+    id: row.id,
+    trigger: row.trigger,
+    mode: row.mode,
+    stage: row.stage,
+    status: row.status,
+    resumed_from: row.resumed_from,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+    duration_ms: row.finished_at
+      ? new Date(row.finished_at).getTime() - new Date(row.started_at).getTime()
+      : null,
+    steps: row.steps || [],
+    counts: row.counts,
+    error: row.error,
+  };
+}
+
+export async function createSyncRun(
+  trigger: SyncTrigger,
+  mode: string,
+  resumedFrom: number | null = null,
+  stage: string | null = null
+): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO sync_runs (trigger, mode, stage, status, resumed_from)
+     VALUES ($1, $2, $3, 'running', $4) RETURNING id`,
+    [trigger, mode, stage, resumedFrom]
+  );
+  return result.rows[0].id;
+}
+
+// Persist step timings as they complete, so a running sync shows its progress
+export async function updateSyncRunSteps(runId: number, steps: SyncStepTiming[]): Promise<void> {
+  await pool.query(`UPDATE sync_runs SET steps = $2 WHERE id = $1`, [runId, JSON.stringify(steps)]);
+}
+
+export async function completeSyncRun(
+  runId: number,
+  steps: SyncStepTiming[],
+  counts: Record<string, unknown>
+): Promise<void> {
+  await pool.query(
+    `UPDATE sync_runs
+     SET status = 'succeeded', finished_at = CURRENT_TIMESTAMP, steps = $2, counts = $3
+     WHERE id = $1`,
+    [runId, JSON.stringify(steps), JSON.stringify(counts)]
+  );
+}
+
+export async function failSyncRun(
+  runId: number,
+  steps: SyncStepTiming[],
+  counts: Record<string, unknown>,
+  error: unknown
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  await pool.query(
+    `UPDATE sync_runs
+     SET status = 'failed', finished_at = CURRENT_TIMESTAMP, steps = $2, counts = $3, error = $4
+     WHERE id = $1`,
+    [runId, JSON.stringify(steps), JSON.stringify(counts), message]
+  );
+}
+
+export async function listSyncRuns(limit = 20): Promise<SyncRun[]> {
+  const result = await pool.query(
+    `SELECT * FROM sync_runs ORDER BY started_at DESC, id DESC LIMIT $1`,
+    [limit]
+  );
+  return result.rows.map(mapRun);
+}
+
+export async function getSyncRun(id: number): Promise<SyncRun | null> {
+  const result = await pool.query(`SELECT * FROM sync_runs WHERE id = $1`, [id]);
+  return result.rows.length > 0 ? mapRun(result.rows[0]) : null;
+}
@@ -1,3 +1,4 @@
+import { PoolClient } from 'pg';
 import { pool } from '../db/connection.js';
 import {
   fetchAllGroups,
@@ -5,221 +6,551 @@ import {
   fetchAchievements,
   fetchItems,
   fetchTitles,
+  fetchSkins,
+  fetchMinis,
+  fetchIdList,
   AchievementGroup,
   AchievementCategory,
   Achievement,
   Item,
   Title,
+  Skin,
+  Mini,
+  Gw2Language,
 } from './gw2Api.js';
+import { Gw2Entity, Gw2Records, validateRecords } from './gw2Validation.js';
+import { recordSyncRejects } from './syncRejects.js';
+import {
+  SyncMode,
+  EntityChangeCounts,
+  loadStoredHashes,
+  detectChanges,
+  diffRelationships,
+  formatCounts,
+} from './changeDetection.js';
+import {
+  SyncTrigger,
+  SyncStepTiming,
+  createSyncRun,
+  updateSyncRunSteps,
+  completeSyncRun,
+  failSyncRun,
+} from './syncRuns.js';
+import {
+  SyncAlreadyRunningError,
+  tryAcquireSyncLock,
+  findActiveSyncRunId,
+  markInterruptedSyncRuns,
+} from './syncLock.js';
+import {
+  CheckpointStore,
+  createCheckpointStore,
+  findResumableRunId,
+  copyCheckpoints,
+  clearCheckpoints,
+} from './syncCheckpoints.js';
+import { Translation, getSyncLanguages, toTranslation } from './localization.js';
+import {
+  AchievementChange,
+  AchievementSnapshot,
+  FieldDiff,
+  snapshotAchievement,
+  diffSnapshots,
+  loadStoredSnapshots,
+  recordAchievementChanges,
+} from './achievementHistory.js';
+import { notifySyncResult } from './webhooks.js';
 
-export async function syncAllData(): Promise<void> {
-  console.log('Starting data synchronization...');
-  const startTime = Date.now();
+export interface SyncOptions {
+  // 'incremental' (default) only writes rows whose content hash changed; 'full' rewrites everything
+  mode?: SyncMode;
+  // What started the sync, recorded in sync_runs
+  trigger?: SyncTrigger;
+  // Resume from the checkpoints of the previous run if it failed recently (default true)
+  resume?: boolean;
+  // Refresh only this entity type instead of running the full sync
+  stage?: SyncStage;
+}
+
+// Entity types a single-stage sync can refresh
+export const SYNC_STAGES = ['groups', 'categories', 'achievements', 'items', 'titles'] as const;
+export type SyncStage = typeof SYNC_STAGES[number];
+
+export interface SyncSummary {
+  runId: number;
+  mode: SyncMode;
+  // Set for a single-stage sync
+  stage: SyncStage | null;
+  durationMs: number;
+  groups: EntityChangeCounts;
+  categories: EntityChangeCounts;
+  achievements: EntityChangeCounts;
+  items: EntityChangeCounts;
+  titles: EntityChangeCounts;
+  skins: EntityChangeCounts;
+  minis: EntityChangeCounts;
+  translations: EntityChangeCounts;
+  retirements: Record<'groups' | 'categories' | 'achievements', RetirementCounts>;
+  // Records that failed validation and were quarantined in sync_rejects (any language)
+  rejects: Record<Gw2Entity, number>;
+}
+
+// Rows marked retired because they disappeared upstream, and retired rows that came back
+export interface RetirementCounts {
+  retired: number;
+  restored: number;
+}
+
+export interface StartedSync {
+  runId: number;
+  // Resolves with the summary once the sync finishes, rejects if it fails
+  done: Promise<SyncSummary>;
+}
+
+const emptyCounts = (): EntityChangeCounts => ({ added: 0, changed: 0, unchanged: 0, removed: 0 });
+const emptyRetirements = (): RetirementCounts => ({ retired: 0, restored: 0 });
+const emptyRejects = (): Record<Gw2Entity, number> =>
+  ({ groups: 0, categories: 0, achievements: 0, items: 0, titles: 0, skins: 0, minis: 0 });
+
+// Take the cluster-wide sync lock, record a sync run and start it. Resolves as soon as
+// the run exists, so callers can hand out the run ID without waiting for the sync itself.
+// Throws SyncAlreadyRunningError if another sync (on any replica) holds the lock.
+export async function startSync(options: SyncOptions = {}): Promise<StartedSync> {
+  const mode = options.mode || 'incremental';
+  const trigger = options.trigger || 'manual';
+  const stage = options.stage ?? null;
 
+  const lock = await tryAcquireSyncLock();
+  if (!lock) {
+    throw new SyncAlreadyRunningError(await findActiveSyncRunId());
+  }
+
+  let runId: number;
   try {
-    // 1. Sync Groups (without category relationships)
-    console.log('Fetching achievement groups...');
-    const groups = await fetchAllGroups();
-    await syncGroups(groups, false); // Don't sync relationships yet
-    console.log(`Synced ${groups.length} groups`);
+    const interrupted = await markInterruptedSyncRuns();
+    if (interrupted > 0) {
+      console.warn(`Marked ${interrupted} interrupted sync run(s) as failed`);
+    }
+    // Only a full sync checkpoints its fetches, so only a full sync resumes
+    const resumeFrom = options.resume === false || stage ? null : await findResumableRunId();
+    runId = await createSyncRun(trigger, mode, resumeFrom, stage);
+    if (resumeFrom !== null) {
+      const copied = await copyCheckpoints(resumeFrom, runId);
+      console.log(`Resuming failed sync run ${resumeFrom} (${copied} checkpoint(s))`);
+    }
+  } catch (error) {
+    await lock.release();
+    throw error;
+  }
 
-    // 2. Collect all category IDs
-    const allCategoryIds = groups.flatMap(g => g.categories);
-    const uniqueCategoryIds = Array.from(new Set(allCategoryIds));
+  const done = runSync(runId, mode, stage).finally(() => lock.release());
+  return { runId, done };
+}
 
-    // 3. Sync Categories (without achievement relationships)
-    console.log('Fetching achievement categories...');
-    const categories = await fetchCategories(uniqueCategoryIds);
-    await syncCategories(categories, groups, false); // Don't sync relationships yet
-    console.log(`Synced ${categories.length} categories`);
+export async function syncAllData(options: SyncOptions = {}): Promise<SyncSummary> {
+  const { done } = await startSync(options);
+  return done;
+}
 
-    // 4. Now sync group-category relationships (after categories exist)
-    console.log('Syncing group-category relationships...');
-    await syncGroupCategoryRelationships(groups);
-    console.log('Group-category relationships synced');
+async function runSync(runId: number, mode: SyncMode, stage: SyncStage | null): Promise<SyncSummary> {
+  console.log(`Starting ${mode} ${stage ? `${stage} ` : ''}data synchronization (run ${runId})...`);
+  const startTime = Date.now();
+  const summary: SyncSummary = {
+    runId,
+    mode,
+    stage,
+    durationMs: 0,
+    groups: emptyCounts(),
+    categories: emptyCounts(),
+    achievements: emptyCounts(),
+    items: emptyCounts(),
+    titles: emptyCounts(),
+    skins: emptyCounts(),
+    minis: emptyCounts(),
+    translations: emptyCounts(),
+    retirements: {
+      groups: emptyRetirements(),
+      categories: emptyRetirements(),
+      achievements: emptyRetirements(),
+    },
+    rejects: emptyRejects(),
+  };
+  const steps: SyncStepTiming[] = [];
+  const countsOf = () => ({
+    groups: summary.groups,
+    categories: summary.categories,
+    achievements: summary.achievements,
+    items: summary.items,
+    titles: summary.titles,
+    skins: summary.skins,
+    minis: summary.minis,
+    translations: summary.translations,
+    retirements: summary.retirements,
+    rejects: summary.rejects,
+  });
 
-    // 5. Collect all achievement IDs
-    const allAchievementIds = categories.flatMap(c => c.achievements);
-    const uniqueAchievementIds = Array.from(new Set(allAchievementIds));
+  // Time one step, log its duration and persist it on the run record
+  const runStep = async <T>(name: string, fn: () => Promise<T> | T): Promise<T> => {
+    const stepStart = Date.now();
+    try {
+      const result = await fn();
+      const durationMs = Date.now() - stepStart;
+      steps.push({ name, status: 'succeeded', durationMs });
+      console.log(`Step ${name} took ${(durationMs / 1000).toFixed(2)}s`);
+      await updateSyncRunSteps(runId, steps);
+      return result;
+    } catch (error) {
+      const durationMs = Date.now() - stepStart;
+      steps.push({ name, status: 'failed', durationMs });
+      console.log(`Step ${name} failed after ${(durationMs / 1000).toFixed(2)}s`);
+      throw error;
+    }
+  };
 
-    // 6. Sync Achievements (filter out Daily/Weekly/Monthly)
-    console.log('Fetching achievements...');
-    const achievements = await fetchAchievements(uniqueAchievementIds);
-    // Filter out Daily/Weekly/Monthly achievements before syncing
-    const filterFlags = ['Daily', 'Weekly', 'Monthly'];
-    const filteredAchievements = achievements.filter(ach => {
-      return !filterFlags.some(flag => (ach.flags || []).includes(flag));
-    });
-    // Create a set of valid achievement IDs for relationship syncing
-    const validAchievementIds = new Set(filteredAchievements.map(ach => ach.id));
-    
-    await syncAchievements(filteredAchievements, categories);
-    console.log(`Synced ${filteredAchievements.length} achievements (filtered ${achievements.length - filteredAchievements.length} Daily/Weekly/Monthly)`);
-
-    // 7. Now sync category-achievement relationships (after achievements exist)
-    // Filter out Daily/Weekly/Monthly achievement IDs from categories
-    console.log('Syncing category-achievement relationships...');
-    await syncCategoryAchievementRelationships(categories, validAchievementIds);
-    console.log('Category-achievement relationships synced');
-
-    // 8. Extract item IDs from achievement rewards and sync items (use filtered achievements)
-    console.log('Extracting item IDs from achievement rewards...');
-    const itemIds = extractItemIdsFromAchievements(filteredAchievements);
-    if (itemIds.length > 0) {
-      console.log(`Found ${itemIds.length} unique item IDs in achievement rewards`);
-      console.log('Fetching item data...');
-      const items = await fetchItems(itemIds);
-      await syncItems(items);
-      console.log(`Synced ${items.length} items`);
-    } else {
-      console.log('No items found in achievement rewards');
+  // Drop records that fail validation, quarantining them and counting them on the summary
+  const validate: RecordValidator = async (entity, records, lang = 'en') => {
+    const { valid, rejected } = validateRecords(entity, records, lang);
+    if (rejected.length > 0) {
+      await recordSyncRejects(runId, rejected);
+      summary.rejects[entity] += rejected.length;
+      console.warn(
+        `Rejected ${rejected.length} invalid ${entity}${lang === 'en' ? '' : ` (${lang})`}, ` +
+        `e.g. ${rejected[0].entityId ?? 'a record without ID'}: ${rejected[0].reason}`
+      );
     }
+    return valid;
+  };
 
-    // 9. Extract title IDs from achievement rewards and sync titles (use filtered achievements)
-    console.log('Extracting title IDs from achievement rewards...');
-    const titleIds = extractTitleIdsFromAchievements(filteredAchievements);
-    if (titleIds.length > 0) {
-      console.log(`Found ${titleIds.length} unique title IDs in achievement rewards`);
-      console.log('Fetching title data...');
-      const titles = await fetchTitles(titleIds);
-      await syncTitles(titles);
-      console.log(`Synced ${titles.length} titles`);
+  try {
+    if (stage) {
+      await syncSingleStage(stage, mode, summary, runStep, validate);
     } else {
-      console.log('No titles found in achievement rewards');
-    }
+      // Stage: fetch the complete dataset from the GW2 API first. Nothing live is written
+      // until every fetch has succeeded, so a failed fetch leaves the previous dataset intact.
+      // Each fetch is checkpointed, so a retry after a failure only downloads what is missing.
+      const dataset = await stageDataset(runStep, validate, createCheckpointStore(runId));
 
-    // 10. Clean up any existing Daily/Weekly/Monthly achievements from database
-    console.log('Cleaning up Daily/Weekly/Monthly achievements from database...');
-    await cleanupFilteredAchievements();
-    console.log('Cleanup completed');
+      // Publish: apply the staged dataset in a single transaction. Readers see either the
+      // previous dataset or the new one, never a mix of the two.
+      await publishDataset(dataset, mode, summary, runStep);
+    }
 
     const endTime = Date.now();
-    const duration = ((endTime - startTime) / 1000).toFixed(2);
+    summary.durationMs = endTime - startTime;
+    await completeSyncRun(runId, steps, countsOf());
+    if (!stage) await clearCheckpoints();
+    const duration = (summary.durationMs / 1000).toFixed(2);
     console.log(`Data synchronization completed in ${duration}s`);
+    notifySyncResult({
+      runId,
+      mode,
+      durationMs: summary.durationMs,
+      counts: countsOf(),
+      addedAchievements: summary.achievements.added,
+    });
+    return summary;
   } catch (error) {
     console.error('Sync failed:', error);
+    try {
+      await failSyncRun(runId, steps, countsOf(), error);
+    } catch (recordError) {
+      console.error(`Failed to record failure of sync run ${runId}:`, recordError);
+    }
+    notifySyncResult({
+      runId,
+      mode,
+      durationMs: Date.now() - startTime,
+      counts: countsOf(),
+      error: error instanceof Error ? error.message : String(error),
+    });
     throw error;
   }
 }
 
-async function syncGroups(groups: AchievementGroup[], syncRelationships: boolean = true): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+type StepRunner = <T>(name: string, fn: () => Promise<T> | T) => Promise<T>;
+type RecordValidator = <E extends Gw2Entity>(
+  entity: E,
+  records: Gw2Records[E][],
+  lang?: Gw2Language
+) => Promise<Gw2Records[E][]>;
 
-    for (const group of groups) {
-      await client.query(
-        `INSERT INTO achievement_groups (id, name, description, "order")
-         VALUES ($1, $2, $3, $4)
-         ON CONFLICT (id) DO UPDATE SET
-           name = EXCLUDED.name,
-           description = EXCLUDED.description,
-           "order" = EXCLUDED."order",
-           updated_at = CURRENT_TIMESTAMP`,
-        [group.id, group.name, group.description || '', group.order]
-      );
+// Everything fetched from the GW2 API for one sync, ready to be published
+interface StagedDataset {
+  groups: AchievementGroup[];
+  categories: AchievementCategory[];
+  // Achievements with Daily/Weekly/Monthly already filtered out
+  achievements: Achievement[];
+  items: Item[];
+  titles: Title[];
+  skins: Skin[];
+  minis: Mini[];
+  // Non-English names/descriptions of all of the above
+  translations: Translation[];
+  // Every group, category and achievement ID the API lists (including ones no group references,
+  // and ones that failed validation), so stored rows missing from them can be retired
+  upstreamIds: { groups: string[]; categories: number[]; achievements: number[] };
+}
 
-      // Only sync relationships if requested (after categories exist)
-      if (syncRelationships) {
-        // Clear existing category associations
-        await client.query('DELETE FROM group_categories WHERE group_id = $1', [group.id]);
-
-        // Insert new category associations (batch insert)
-        if (group.categories && group.categories.length > 0) {
-          await client.query(
-            `INSERT INTO group_categories (group_id, category_id)
-             SELECT $1, unnest($2::integer[])
-             ON CONFLICT DO NOTHING`,
-            [group.id, group.categories]
-          );
-        }
-      }
+async function stageDataset(
+  runStep: StepRunner,
+  validate: RecordValidator,
+  checkpoints: CheckpointStore
+): Promise<StagedDataset> {
+  // 1. Fetch Groups
+  const fetchedGroups = await runStep('fetch-groups', async () => {
+    const saved = await checkpoints.loadStep<AchievementGroup[]>('fetch-groups');
+    if (saved) {
+      console.log(`Resuming with ${saved.length} checkpointed groups`);
+      return saved;
     }
+    console.log('Fetching achievement groups...');
+    const groups = await fetchAllGroups();
+    await checkpoints.saveStep('fetch-groups', groups);
+    console.log(`Fetched ${groups.length} groups`);
+    return groups;
+  });
+  const groups = await validate('groups', fetchedGroups);
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
-  }
-}
+  // 2. Fetch Categories referenced by the groups
+  const categories = await runStep('fetch-categories', async () => {
+    const uniqueCategoryIds = Array.from(new Set(groups.flatMap(g => g.categories)));
+    console.log('Fetching achievement categories...');
+    const fetched = await fetchCategories(uniqueCategoryIds, await checkpoints.forChunks('fetch-categories'));
+    const categories = await validate('categories', fetched);
+    console.log(`Fetched ${categories.length} categories`);
+    return categories;
+  });
 
-async function syncGroupCategoryRelationships(groups: AchievementGroup[]): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+  // 3. Fetch Achievements referenced by the categories (filter out Daily/Weekly/Monthly)
+  const achievements = await runStep('fetch-achievements', async () => {
+    const uniqueAchievementIds = Array.from(new Set(categories.flatMap(c => c.achievements)));
+    console.log('Fetching achievements...');
+    const fetched = await validate(
+      'achievements',
+      await fetchAchievements(uniqueAchievementIds, await checkpoints.forChunks('fetch-achievements'))
+    );
+    const achievements = withoutTimeGated(fetched);
+    const filteredOutCount = fetched.length - achievements.length;
+    console.log(`Fetched ${achievements.length} achievements (filtered ${filteredOutCount} Daily/Weekly/Monthly)`);
+    return achievements;
+  });
+
+  // 4. Fetch Skins and Minis referenced by achievement rewards and collection bits
+  const skins = await runStep('fetch-skins', async () => {
+    const skinIds = extractIdsFromAchievements(achievements, 'Skin');
+    if (skinIds.length === 0) {
+      console.log('No skins found in achievement rewards or bits');
+      return [];
+    }
+    console.log(`Found ${skinIds.length} unique skin IDs in achievement rewards and bits`);
+    const skins = await validate('skins', await fetchSkins(skinIds, await checkpoints.forChunks('fetch-skins')));
+    console.log(`Fetched ${skins.length} skins`);
+    return skins;
+  });
+
+  const minis = await runStep('fetch-minis', async () => {
+    const miniIds = extractIdsFromAchievements(achievements, 'Minipet');
+    if (miniIds.length === 0) {
+      console.log('No minis found in achievement rewards or bits');
+      return [];
+    }
+    console.log(`Found ${miniIds.length} unique mini IDs in achievement rewards and bits`);
+    const minis = await validate('minis', await fetchMinis(miniIds, await checkpoints.forChunks('fetch-minis')));
+    console.log(`Fetched ${minis.length} minis`);
+    return minis;
+  });
+
+  // 5. Fetch Items referenced by achievement rewards and collection bits, plus the items
+  // that unlock each mini (which carry the mini's rarity)
+  const items = await runStep('fetch-items', async () => {
+    console.log('Extracting item IDs from achievement rewards and bits...');
+    const itemIds = Array.from(new Set([
+      ...extractIdsFromAchievements(achievements, 'Item'),
+      ...minis.flatMap(m => (m.item_id ? [m.item_id] : [])),
+    ]));
+    if (itemIds.length === 0) {
+      console.log('No items found in achievement rewards or bits');
+      return [];
+    }
+    console.log(`Found ${itemIds.length} unique item IDs in achievement rewards and bits`);
+    console.log('Fetching item data...');
+    const items = await validate('items', await fetchItems(itemIds, await checkpoints.forChunks('fetch-items')));
+    console.log(`Fetched ${items.length} items`);
+    return items;
+  });
+
+  // 6. Fetch Titles referenced by achievement rewards
+  const titles = await runStep('fetch-titles', async () => {
+    console.log('Extracting title IDs from achievement rewards...');
+    const titleIds = extractIdsFromAchievements(achievements, 'Title');
+    if (titleIds.length === 0) {
+      console.log('No titles found in achievement rewards');
+      return [];
+    }
+    console.log(`Found ${titleIds.length} unique title IDs in achievement rewards`);
+    console.log('Fetching title data...');
+    const titles = await validate('titles', await fetchTitles(titleIds, await checkpoints.forChunks('fetch-titles')));
+    console.log(`Fetched ${titles.length} titles`);
+    return titles;
+  });
+
+  // 7. Fetch the complete upstream ID lists, to find removed categories and achievements
+  const upstreamIds = await runStep('fetch-id-lists', async () => {
+    const saved = await checkpoints.loadStep<Omit<StagedDataset['upstreamIds'], 'groups'>>('fetch-id-lists');
+    if (saved) return saved;
+    const upstreamIds: Omit<StagedDataset['upstreamIds'], 'groups'> = {
+      categories: await fetchIdList('/achievements/categories'),
+      achievements: await fetchIdList('/achievements'),
+    };
+    await checkpoints.saveStep('fetch-id-lists', upstreamIds);
+    console.log(`Upstream lists ${upstreamIds.categories.length} categories and ${upstreamIds.achievements.length} achievements`);
+    return upstreamIds;
+  });
 
-    for (const group of groups) {
-      // Clear existing category associations
-      await client.query('DELETE FROM group_categories WHERE group_id = $1', [group.id]);
-
-      // Insert new category associations (batch insert)
-      if (group.categories && group.categories.length > 0) {
-        await client.query(
-          `INSERT INTO group_categories (group_id, category_id)
-           SELECT $1, unnest($2::integer[])
-           ON CONFLICT DO NOTHING`,
-          [group.id, group.categories]
-        );
+  // 8. Fetch translations of everything above in every other configured language
+  const translations = await runStep('fetch-translations', async () => {
+    const languages = getSyncLanguages();
+    const translations: Translation[] = [];
+    const achievementIds = achievements.map(a => a.id);
+    const itemIds = items.map(i => i.id);
+    const titleIds = titles.map(t => t.id);
+    const skinIds = skins.map(s => s.id);
+    const miniIds = minis.map(m => m.id);
+
+    for (const lang of languages) {
+      console.log(`Fetching ${lang} translations...`);
+      const groupStep = `fetch-groups:${lang}`;
+      let localizedGroups = await checkpoints.loadStep<AchievementGroup[]>(groupStep);
+      if (!localizedGroups) {
+        localizedGroups = await fetchAllGroups(lang);
+        await checkpoints.saveStep(groupStep, localizedGroups);
       }
+      const localizedCategories = await fetchCategories(
+        categories.map(c => c.id),
+        await checkpoints.forChunks(`fetch-categories:${lang}`),
+        lang
+      );
+      const localizedAchievements = await fetchAchievements(
+        achievementIds,
+        await checkpoints.forChunks(`fetch-achievements:${lang}`),
+        lang
+      );
+      const localizedItems = await fetchItems(itemIds, await checkpoints.forChunks(`fetch-items:${lang}`), lang);
+      const localizedTitles = await fetchTitles(titleIds, await checkpoints.forChunks(`fetch-titles:${lang}`), lang);
+      const localizedSkins = await fetchSkins(skinIds, await checkpoints.forChunks(`fetch-skins:${lang}`), lang);
+      const localizedMinis = await fetchMinis(miniIds, await checkpoints.forChunks(`fetch-minis:${lang}`), lang);
+
+      translations.push(
+        ...(await validate('groups', localizedGroups, lang)).map(g => toTranslation('group', g, lang)),
+        ...(await validate('categories', localizedCategories, lang)).map(c => toTranslation('category', c, lang)),
+        ...(await validate('achievements', localizedAchievements, lang)).map(a => toTranslation('achievement', a, lang)),
+        ...(await validate('items', localizedItems, lang)).map(i => toTranslation('item', i, lang)),
+        ...(await validate('titles', localizedTitles, lang)).map(t => toTranslation('title', t, lang)),
+        ...(await validate('skins', localizedSkins, lang)).map(s => toTranslation('skin', s, lang)),
+        ...(await validate('minis', localizedMinis, lang)).map(m => toTranslation('mini', m, lang))
+      );
     }
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
-  }
+    console.log(`Fetched ${translations.length} translations (${languages.join(', ') || 'none'})`);
+    return translations;
+  });
+
+  return {
+    groups,
+    categories,
+    achievements,
+    items,
+    titles,
+    skins,
+    minis,
+    translations,
+    upstreamIds: { ...upstreamIds, groups: fetchedGroups.map(g => String(g.id)) },
+  };
 }
 
-async function syncCategories(
-  categories: AchievementCategory[],
-  groups: AchievementGroup[],
-  syncRelationships: boolean = true
+async function publishDataset(
+  dataset: StagedDataset,
+  mode: SyncMode,
+  summary: SyncSummary,
+  runStep: StepRunner
 ): Promise<void> {
+  const { groups, categories, achievements, items, titles, skins, minis, translations, upstreamIds } = dataset;
+  // Create a set of valid achievement IDs for relationship syncing
+  const validAchievementIds = new Set(achievements.map(ach => ach.id));
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
-    for (const category of categories) {
-      await client.query(
-        `INSERT INTO achievement_categories (id, name, description, "order", icon)
-         VALUES ($1, $2, $3, $4, $5)
-         ON CONFLICT (id) DO UPDATE SET
-           name = EXCLUDED.name,
-           description = EXCLUDED.description,
-           "order" = EXCLUDED."order",
-           icon = EXCLUDED.icon,
-           updated_at = CURRENT_TIMESTAMP`,
-        [
-          category.id,
-          category.name,
-          category.description || '',
-          category.order,
-          category.icon || null,
-        ]
+    // 6. Groups, then categories (without relationships)
+    await runStep('publish-groups', () => publishGroups(client, groups, mode, summary));
+    await runStep('publish-categories', () => publishCategories(client, categories, mode, summary));
+
+    // Retire groups, categories and achievements the API no longer lists (and restore any that
+    // are back) before relationships are synced, so links to retired rows are kept
+    await runStep('publish-retirements', async () => {
+      const achievementRetirements = await syncRetirement(client, 'achievements', upstreamIds.achievements);
+      summary.retirements = {
+        groups: countRetirements(await syncRetirement(client, 'achievement_groups', upstreamIds.groups)),
+        categories: countRetirements(await syncRetirement(client, 'achievement_categories', upstreamIds.categories)),
+        achievements: countRetirements(achievementRetirements),
+      };
+      await recordRetirementHistory(client, summary.runId, achievementRetirements);
+      const { groups: g, categories: c, achievements: a } = summary.retirements;
+      console.log(
+        `Retired ${g.retired} groups, ${c.retired} categories, ${a.retired} achievements ` +
+        `(restored ${g.restored + c.restored + a.restored})`
       );
+    });
 
-      // Only sync relationships if requested (after achievements exist)
-      if (syncRelationships) {
-        // Clear existing achievement associations
-        await client.query('DELETE FROM category_achievements WHERE category_id = $1', [category.id]);
-
-        // Insert new achievement associations (batch insert)
-        if (category.achievements && category.achievements.length > 0) {
-          await client.query(
-            `INSERT INTO category_achievements (category_id, achievement_id)
-             SELECT $1, unnest($2::integer[])
-             ON CONFLICT DO NOTHING`,
-            [category.id, category.achievements]
-          );
-        }
-      }
-    }
+    // 7. Group-category relationships (after categories exist)
+    await runStep('publish-group-category-relationships', async () => {
+      const rewrittenGroups = await syncGroupCategoryRelationships(client, groups, mode);
+      console.log(`Group-category relationships synced (${rewrittenGroups} groups rewritten)`);
+    });
+
+    // 8. Achievements, then category-achievement relationships (after achievements exist)
+    await runStep('publish-achievements', () => publishAchievements(client, achievements, mode, summary));
+
+    await runStep('publish-category-achievement-relationships', async () => {
+      const rewrittenCategories = await syncCategoryAchievementRelationships(client, categories, validAchievementIds, mode);
+      console.log(`Category-achievement relationships synced (${rewrittenCategories} categories rewritten)`);
+    });
 
-    await client.query('COMMIT');
+    // 9. Items, titles, skins and minis
+    await runStep('publish-items', () => publishItems(client, items, mode, summary));
+    await runStep('publish-titles', () => publishTitles(client, titles, mode, summary));
+
+    await runStep('publish-skins', async () => {
+      const skinChanges = detectChanges(skins, s => s.id, await loadStoredHashes(client, 'skins'), mode);
+      await syncSkins(client, skinChanges.toWrite, skinChanges.hashes);
+      summary.skins = skinChanges.counts;
+      console.log(`Synced ${skins.length} skins (${formatCounts(skinChanges.counts)})`);
+    });
+
+    await runStep('publish-minis', async () => {
+      const miniChanges = detectChanges(minis, m => m.id, await loadStoredHashes(client, 'minis'), mode);
+      await syncMinis(client, miniChanges.toWrite, miniChanges.hashes, items);
+      summary.minis = miniChanges.counts;
+      console.log(`Synced ${minis.length} minis (${formatCounts(miniChanges.counts)})`);
+    });
+
+    await runStep('publish-translations', async () => {
+      const translationChanges = detectChanges(translations, translationKey, await loadStoredTranslationHashes(client), mode);
+      await syncTranslations(client, translationChanges.toWrite, translationChanges.hashes);
+      summary.translations = translationChanges.counts;
+      console.log(`Synced ${translations.length} translations (${formatCounts(translationChanges.counts)})`);
+    });
+
+    // 10. Clean up any existing Daily/Weekly/Monthly achievements from database
+    await runStep('publish-cleanup', async () => {
+      console.log('Cleaning up Daily/Weekly/Monthly achievements from database...');
+      await cleanupFilteredAchievements(client);
+      console.log('Cleanup completed');
+    });
+
+    // Switch the new dataset live
+    await runStep('commit', () => client.query('COMMIT'));
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -228,35 +559,92 @@ async function syncCategories(
   }
 }
 
-async function syncCategoryAchievementRelationships(
-  categories: AchievementCategory[],
-  validAchievementIds: Set<number>
+// Refresh one entity type without a full sync. Parents are fetched from the API only to find
+// which IDs to refresh (items and titles come from the achievements already stored). Links are
+// only written to rows that already exist; retirements, translations, skins and minis are left
+// to the full sync.
+async function syncSingleStage(
+  stage: SyncStage,
+  mode: SyncMode,
+  summary: SyncSummary,
+  runStep: StepRunner,
+  validate: RecordValidator
 ): Promise<void> {
+  const needsGroups = stage === 'groups' || stage === 'categories' || stage === 'achievements';
+  const needsCategories = stage === 'categories' || stage === 'achievements';
+
+  const groups = needsGroups ? await runStep('fetch-groups', async () => validate('groups', await fetchAllGroups())) : [];
+  const categories = needsCategories
+    ? await runStep('fetch-categories', async () => {
+      const ids = Array.from(new Set(groups.flatMap(g => g.categories)));
+      return validate('categories', await fetchCategories(ids));
+    })
+    : [];
+  const achievements = stage === 'achievements'
+    ? await runStep('fetch-achievements', async () => {
+      const ids = Array.from(new Set(categories.flatMap(c => c.achievements)));
+      return withoutTimeGated(await validate('achievements', await fetchAchievements(ids)));
+    })
+    : [];
+  const items = stage === 'items'
+    ? await runStep('fetch-items', async () => {
+      const stored = await loadStoredAchievementRefs();
+      const ids = Array.from(new Set([
+        ...extractIdsFromAchievements(stored.achievements, 'Item'),
+        ...stored.miniItemIds,
+      ]));
+      return validate('items', await fetchItems(ids));
+    })
+    : [];
+  const titles = stage === 'titles'
+    ? await runStep('fetch-titles', async () => {
+      const stored = await loadStoredAchievementRefs();
+      return validate('titles', await fetchTitles(extractIdsFromAchievements(stored.achievements, 'Title')));
+    })
+    : [];
+
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
 
-    for (const category of categories) {
-      // Clear existing achievement associations
-      await client.query('DELETE FROM category_achievements WHERE category_id = $1', [category.id]);
-
-      // Filter out Daily/Weekly/Monthly achievements before inserting
-      // Only include achievement IDs that exist in the valid set (were synced to DB)
-      if (category.achievements && category.achievements.length > 0) {
-        const validIds = category.achievements.filter(id => validAchievementIds.has(id));
-        
-        if (validIds.length > 0) {
-          await client.query(
-            `INSERT INTO category_achievements (category_id, achievement_id)
-             SELECT $1, unnest($2::integer[])
-             ON CONFLICT DO NOTHING`,
-            [category.id, validIds]
+    await runStep(`publish-${stage}`, async () => {
+      switch (stage) {
+        case 'groups': {
+          await publishGroups(client, groups, mode, summary);
+          const categoryIds = await loadLiveIds(client, 'achievement_categories');
+          const linkable = groups.map(g => ({ ...g, categories: g.categories.filter(id => categoryIds.has(String(id))) }));
+          await syncGroupCategoryRelationships(client, linkable, mode);
+          break;
+        }
+        case 'categories': {
+          await publishCategories(client, categories, mode, summary);
+          const groupIds = await loadLiveIds(client, 'achievement_groups');
+          await syncGroupCategoryRelationships(client, groups.filter(g => groupIds.has(g.id)), mode);
+          const achievementIds = new Set(Array.from(await loadLiveIds(client, 'achievements')).map(Number));
+          await syncCategoryAchievementRelationships(client, categories, achievementIds, mode);
+          break;
+        }
+        case 'achievements': {
+          await publishAchievements(client, achievements, mode, summary);
+          const categoryIds = await loadLiveIds(client, 'achievement_categories');
+          await syncCategoryAchievementRelationships(
+            client,
+            categories.filter(c => categoryIds.has(String(c.id))),
+            new Set(achievements.map(a => a.id)),
+            mode
           );
+          break;
         }
+        case 'items':
+          await publishItems(client, items, mode, summary);
+          break;
+        case 'titles':
+          await publishTitles(client, titles, mode, summary);
+          break;
       }
-    }
+    });
 
-    await client.query('COMMIT');
+    await runStep('commit', () => client.query('COMMIT'));
   } catch (error) {
     await client.query('ROLLBACK');
     throw error;
@@ -265,186 +653,480 @@ async function syncCategoryAchievementRelationships(
   }
 }
 
-async function syncAchievements(
+// Reward and bit references of the live achievements, and the items that unlock the stored minis
+async function loadStoredAchievementRefs(): Promise<{ achievements: Achievement[]; miniItemIds: number[] }> {
+  const achievements = await pool.query(`SELECT id, rewards, bits FROM achievements WHERE retired_at IS NULL`);
+  const minis = await pool.query(`SELECT item_id FROM minis WHERE item_id IS NOT NULL`);
+  return { achievements: achievements.rows, miniItemIds: minis.rows.map(row => row.item_id) };
+}
+
+async function loadLiveIds(client: PoolClient, table: RetirableTable): Promise<Set<string>> {
+  const result = await client.query(`SELECT id FROM ${table} WHERE retired_at IS NULL`);
+  return new Set(result.rows.map(row => String(row.id)));
+}
+
+// Daily, Weekly and Monthly achievements are not tracked
+const TIME_GATED_FLAGS = ['Daily', 'Weekly', 'Monthly'];
+
+function withoutTimeGated(achievements: Achievement[]): Achievement[] {
+  return achievements.filter(ach => !TIME_GATED_FLAGS.some(flag => (ach.flags || []).includes(flag)));
+}
+
+// Publish steps shared by the full and single-stage syncs: write the new or changed rows of
+// one entity type and record its counts on the summary
+
+async function publishGroups(client: PoolClient, groups: AchievementGroup[], mode: SyncMode, summary: SyncSummary) {
+  const groupChanges = detectChanges(groups, g => g.id, await loadStoredHashes(client, 'achievement_groups'), mode);
+  await syncGroups(client, groupChanges.toWrite, groupChanges.hashes); // Relationships are synced separately
+  summary.groups = groupChanges.counts;
+  console.log(`Synced ${groups.length} groups (${formatCounts(groupChanges.counts)})`);
+}
+
+async function publishCategories(
+  client: PoolClient,
+  categories: AchievementCategory[],
+  mode: SyncMode,
+  summary: SyncSummary
+) {
+  const categoryChanges = detectChanges(categories, c => c.id, await loadStoredHashes(client, 'achievement_categories'), mode);
+  await syncCategories(client, categoryChanges.toWrite, categoryChanges.hashes); // Relationships are synced separately
+  summary.categories = categoryChanges.counts;
+  console.log(`Synced ${categories.length} categories (${formatCounts(categoryChanges.counts)})`);
+}
+
+async function publishAchievements(
+  client: PoolClient,
   achievements: Achievement[],
-  categories: AchievementCategory[]
-): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+  mode: SyncMode,
+  summary: SyncSummary
+) {
+  const storedHashes = await loadStoredHashes(client, 'achievements');
+  const achievementChanges = detectChanges(achievements, a => a.id, storedHashes, mode);
+  const previous = await loadStoredSnapshots(client, achievementChanges.changedIds.map(Number));
+  await syncAchievements(client, achievementChanges.toWrite, achievementChanges.hashes);
+  await recordAchievementHistory(client, summary.runId, achievements, achievementChanges.addedIds, previous, storedHashes);
+  summary.achievements = achievementChanges.counts;
+  console.log(`Synced ${achievements.length} achievements (${formatCounts(achievementChanges.counts)})`);
+}
 
-    for (const achievement of achievements) {
-      await client.query(
-        `INSERT INTO achievements (id, icon, name, description, requirement, locked_text, type, flags, tiers, rewards, prerequisites)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-         ON CONFLICT (id) DO UPDATE SET
-           icon = EXCLUDED.icon,
-           name = EXCLUDED.name,
-           description = EXCLUDED.description,
-           requirement = EXCLUDED.requirement,
-           locked_text = EXCLUDED.locked_text,
-           type = EXCLUDED.type,
-           flags = EXCLUDED.flags,
-           tiers = EXCLUDED.tiers,
-           rewards = EXCLUDED.rewards,
-           prerequisites = EXCLUDED.prerequisites,
-           updated_at = CURRENT_TIMESTAMP`,
-        [
-          achievement.id,
-          achievement.icon || null,
-          achievement.name,
-          achievement.description || '',
-          achievement.requirement || '',
-          achievement.locked_text || null,
-          achievement.type,
-          achievement.flags || [],
-          JSON.stringify(achievement.tiers),
-          achievement.rewards ? JSON.stringify(achievement.rewards) : null,
-          achievement.prerequisites ? JSON.stringify(achievement.prerequisites) : null,
-        ]
-      );
-    }
+async function publishItems(client: PoolClient, items: Item[], mode: SyncMode, summary: SyncSummary) {
+  const itemChanges = detectChanges(items, i => i.id, await loadStoredHashes(client, 'items'), mode);
+  await syncItems(client, itemChanges.toWrite, itemChanges.hashes);
+  summary.items = itemChanges.counts;
+  console.log(`Synced ${items.length} items (${formatCounts(itemChanges.counts)})`);
+}
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
+async function publishTitles(client: PoolClient, titles: Title[], mode: SyncMode, summary: SyncSummary) {
+  const titleChanges = detectChanges(titles, t => t.id, await loadStoredHashes(client, 'titles'), mode);
+  await syncTitles(client, titleChanges.toWrite, titleChanges.hashes);
+  summary.titles = titleChanges.counts;
+  console.log(`Synced ${titles.length} titles (${formatCounts(titleChanges.counts)})`);
+}
+
+// The functions below write into the publish transaction owned by the caller. Each writes a
+// whole entity type in a few set-based statements rather than one statement per row.
+
+// Rows per upsert statement
+const WRITE_BATCH_SIZE = 1000;
+
+// Insert or update rows in batches. The rows are sent as one JSON parameter and expanded by
+// jsonb_populate_recordset, so JSON arrays land in array columns and nested values in JSONB
+// columns. Every row must have the same keys; a key repeated within one call is written once
+// (the last row wins), since a statement cannot update the same row twice.
+async function upsertRows(
+  client: PoolClient,
+  table: string,
+  conflictColumns: string[],
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  const unique = Array.from(
+    new Map(rows.map(row => [conflictColumns.map(column => String(row[column])).join(':'), row])).values()
+  );
+  const columns = Object.keys(unique[0]);
+  const columnList = columns.map(column => `"${column}"`).join(', ');
+  const updates = columns
+    .filter(column => !conflictColumns.includes(column))
+    .map(column => `"${column}" = EXCLUDED."${column}"`);
+
+  for (let i = 0; i < unique.length; i += WRITE_BATCH_SIZE) {
+    await client.query(
+      `INSERT INTO ${table} (${columnList})
+       SELECT ${columnList} FROM jsonb_populate_recordset(NULL::${table}, $1)
+       ON CONFLICT (${conflictColumns.join(', ')}) DO UPDATE SET
+         ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}`,
+      [JSON.stringify(unique.slice(i, i + WRITE_BATCH_SIZE))]
+    );
   }
 }
 
-// Extract unique item IDs from achievement rewards
-function extractItemIdsFromAchievements(achievements: Achievement[]): number[] {
-  const itemIds = new Set<number>();
-  
-  for (const achievement of achievements) {
-    if (achievement.rewards) {
-      for (const reward of achievement.rewards) {
-        if (reward.type === 'Item' && reward.id) {
-          itemIds.add(reward.id);
-        }
-      }
+// Replace the links of the given parents in a link table, keeping links to retired children
+// (so they still show under ?includeRetired=true): one DELETE and one INSERT for all parents
+async function replaceLinks(
+  client: PoolClient,
+  link: { table: string; parentColumn: string; childColumn: string; parentType: string; childTable: string },
+  links: Map<string | number, number[]>
+): Promise<void> {
+  if (links.size === 0) return;
+  const parentIds = Array.from(links.keys());
+  await client.query(
+    `DELETE FROM ${link.table}
+     WHERE ${link.parentColumn} = ANY($1::${link.parentType}[])
+       AND ${link.childColumn} NOT IN (SELECT id FROM ${link.childTable} WHERE retired_at IS NOT NULL)`,
+    [parentIds]
+  );
+
+  const parents: Array<string | number> = [];
+  const children: number[] = [];
+  for (const [parentId, childIds] of links) {
+    for (const childId of childIds) {
+      parents.push(parentId);
+      children.push(childId);
     }
   }
-  
-  return Array.from(itemIds);
+  if (children.length > 0) {
+    await client.query(
+      `INSERT INTO ${link.table} (${link.parentColumn}, ${link.childColumn})
+       SELECT * FROM unnest($1::${link.parentType}[], $2::integer[])
+       ON CONFLICT DO NOTHING`,
+      [parents, children]
+    );
+  }
+}
+
+async function syncGroups(client: PoolClient, groups: AchievementGroup[], hashes: Map<string, string>): Promise<void> {
+  await upsertRows(client, 'achievement_groups', ['id'], groups.map(group => ({
+    id: group.id,
+    name: group.name,
+    description: group.description || '',
+    order: group.order,
+    content_hash: hashes.get(String(group.id)) || null,
+  })));
+}
+
+// Rewrite group-category links, only for groups whose category list differs from what is stored.
+// Returns the number of groups rewritten.
+async function syncGroupCategoryRelationships(
+  client: PoolClient,
+  groups: AchievementGroup[],
+  mode: SyncMode
+): Promise<number> {
+  // Links to retired categories are left alone, so they still show under ?includeRetired=true
+  const stored = await client.query(
+    `SELECT gc.group_id, array_agg(gc.category_id) AS ids
+     FROM group_categories gc
+     INNER JOIN achievement_categories ac ON ac.id = gc.category_id
+     WHERE ac.retired_at IS NULL
+     GROUP BY gc.group_id`
+  );
+  const storedMap = new Map<string, number[]>(stored.rows.map(row => [row.group_id, row.ids]));
+  const desiredMap = new Map<string, number[]>(groups.map(g => [g.id, g.categories || []]));
+  const changedGroupIds = diffRelationships(desiredMap, storedMap, mode);
+
+  await replaceLinks(
+    client,
+    {
+      table: 'group_categories',
+      parentColumn: 'group_id',
+      childColumn: 'category_id',
+      parentType: 'text',
+      childTable: 'achievement_categories',
+    },
+    new Map(changedGroupIds.map(id => [id, desiredMap.get(id) || []]))
+  );
+
+  return changedGroupIds.length;
+}
+
+async function syncCategories(
+  client: PoolClient,
+  categories: AchievementCategory[],
+  hashes: Map<string, string>
+): Promise<void> {
+  await upsertRows(client, 'achievement_categories', ['id'], categories.map(category => ({
+    id: category.id,
+    name: category.name,
+    description: category.description || '',
+    order: category.order,
+    icon: category.icon || null,
+    content_hash: hashes.get(String(category.id)) || null,
+  })));
+}
+
+// Rewrite category-achievement links, only for categories whose (filtered) achievement list
+// differs from what is stored. Returns the number of categories rewritten.
+async function syncCategoryAchievementRelationships(
+  client: PoolClient,
+  categories: AchievementCategory[],
+  validAchievementIds: Set<number>,
+  mode: SyncMode
+): Promise<number> {
+  // Links to retired achievements are left alone, so they still show under ?includeRetired=true
+  const stored = await client.query(
+    `SELECT ca.category_id, array_agg(ca.achievement_id) AS ids
+     FROM category_achievements ca
+     INNER JOIN achievements a ON a.id = ca.achievement_id
+     WHERE a.retired_at IS NULL
+     GROUP BY ca.category_id`
+  );
+  const storedMap = new Map<number, number[]>(stored.rows.map(row => [row.category_id, row.ids]));
+  // Only link achievements that were synced to the DB (Daily/Weekly/Monthly are filtered out)
+  const desiredMap = new Map<number, number[]>(
+    categories.map(c => [c.id, (c.achievements || []).filter(id => validAchievementIds.has(id))])
+  );
+  const changedCategoryIds = diffRelationships(desiredMap, storedMap, mode);
+
+  await replaceLinks(
+    client,
+    {
+      table: 'category_achievements',
+      parentColumn: 'category_id',
+      childColumn: 'achievement_id',
+      parentType: 'integer',
+      childTable: 'achievements',
+    },
+    new Map(changedCategoryIds.map(id => [id, desiredMap.get(id) || []]))
+  );
+
+  return changedCategoryIds.length;
+}
+
+async function syncAchievements(
+  client: PoolClient,
+  achievements: Achievement[],
+  hashes: Map<string, string>
+): Promise<void> {
+  await upsertRows(client, 'achievements', ['id'], achievements.map(achievement => ({
+    id: achievement.id,
+    icon: achievement.icon || null,
+    name: achievement.name,
+    description: achievement.description || '',
+    requirement: achievement.requirement || '',
+    locked_text: achievement.locked_text || null,
+    type: achievement.type,
+    flags: achievement.flags || [],
+    tiers: achievement.tiers,
+    rewards: achievement.rewards ?? null,
+    prerequisites: achievement.prerequisites ?? null,
+    bits: achievement.bits ?? null,
+    point_cap: achievement.point_cap ?? null,
+    content_hash: hashes.get(String(achievement.id)) || null,
+  })));
 }
 
-// Extract unique title IDs from achievement rewards
-function extractTitleIdsFromAchievements(achievements: Achievement[]): number[] {
-  const titleIds = new Set<number>();
+// Extract unique IDs of one reward/bit type ('Item', 'Title', 'Skin' or 'Minipet')
+// from achievement rewards and collection bits
+function extractIdsFromAchievements(achievements: Achievement[], type: string): number[] {
+  const ids = new Set<number>();
   
   for (const achievement of achievements) {
-    if (achievement.rewards) {
-      for (const reward of achievement.rewards) {
-        if (reward.type === 'Title' && reward.id) {
-          titleIds.add(reward.id);
-        }
+    for (const entry of [...(achievement.rewards || []), ...(achievement.bits || [])]) {
+      if (entry.type === type && entry.id) {
+        ids.add(entry.id);
       }
     }
   }
   
-  return Array.from(titleIds);
+  return Array.from(ids);
 }
 
-async function syncItems(items: Item[]): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+async function syncItems(client: PoolClient, items: Item[], hashes: Map<string, string>): Promise<void> {
+  await upsertRows(client, 'items', ['id'], items.map(item => ({
+    id: item.id,
+    name: item.name,
+    description: item.description || null,
+    type: item.type || null,
+    rarity: item.rarity || null,
+    level: item.level || null,
+    vendor_value: item.vendor_value || null,
+    icon: item.icon || null,
+    details: item.details ?? null,
+    content_hash: hashes.get(String(item.id)) || null,
+  })));
+}
 
-    for (const item of items) {
-      await client.query(
-        `INSERT INTO items (id, name, description, type, rarity, level, vendor_value, icon, details)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         ON CONFLICT (id) DO UPDATE SET
-           name = EXCLUDED.name,
-           description = EXCLUDED.description,
-           type = EXCLUDED.type,
-           rarity = EXCLUDED.rarity,
-           level = EXCLUDED.level,
-           vendor_value = EXCLUDED.vendor_value,
-           icon = EXCLUDED.icon,
-           details = EXCLUDED.details,
-           updated_at = CURRENT_TIMESTAMP`,
-        [
-          item.id,
-          item.name,
-          item.description || null,
-          item.type || null,
-          item.rarity || null,
-          item.level || null,
-          item.vendor_value || null,
-          item.icon || null,
-          item.details ? JSON.stringify(item.details) : null,
-        ]
-      );
-    }
+async function syncTitles(client: PoolClient, titles: Title[], hashes: Map<string, string>): Promise<void> {
+  await upsertRows(client, 'titles', ['id'], titles.map(title => ({
+    id: title.id,
+    name: title.name,
+    content_hash: hashes.get(String(title.id)) || null,
+  })));
+}
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
-  }
+async function syncSkins(client: PoolClient, skins: Skin[], hashes: Map<string, string>): Promise<void> {
+  await upsertRows(client, 'skins', ['id'], skins.map(skin => ({
+    id: skin.id,
+    name: skin.name,
+    description: skin.description || null,
+    type: skin.type || null,
+    rarity: skin.rarity || null,
+    icon: skin.icon || null,
+    flags: skin.flags || [],
+    restrictions: skin.restrictions || [],
+    details: skin.details ?? null,
+    content_hash: hashes.get(String(skin.id)) || null,
+  })));
 }
 
-async function syncTitles(titles: Title[]): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+// Minis have no rarity of their own; it is taken from the item that unlocks them
+async function syncMinis(
+  client: PoolClient,
+  minis: Mini[],
+  hashes: Map<string, string>,
+  items: Item[]
+): Promise<void> {
+  const itemRarity = new Map(items.map(item => [item.id, item.rarity]));
+  await upsertRows(client, 'minis', ['id'], minis.map(mini => ({
+    id: mini.id,
+    name: mini.name,
+    unlock: mini.unlock || null,
+    icon: mini.icon || null,
+    order: mini.order ?? null,
+    item_id: mini.item_id || null,
+    rarity: (mini.item_id && itemRarity.get(mini.item_id)) || null,
+    content_hash: hashes.get(String(mini.id)) || null,
+  })));
+}
 
-    for (const title of titles) {
-      await client.query(
-        `INSERT INTO titles (id, name)
-         VALUES ($1, $2)
-         ON CONFLICT (id) DO UPDATE SET
-           name = EXCLUDED.name,
-           updated_at = CURRENT_TIMESTAMP`,
-        [
-          title.id,
-          title.name,
-        ]
-      );
-    }
+const translationKey = (t: Translation) => `${t.entityType}:${t.entityId}:${t.lang}`;
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
+async function loadStoredTranslationHashes(client: PoolClient): Promise<Map<string, string | null>> {
+  const result = await client.query(
+    `SELECT entity_type || ':' || entity_id || ':' || lang AS key, content_hash FROM translations`
+  );
+  return new Map(result.rows.map(row => [row.key, row.content_hash]));
+}
+
+async function syncTranslations(
+  client: PoolClient,
+  translations: Translation[],
+  hashes: Map<string, string>
+): Promise<void> {
+  await upsertRows(client, 'translations', ['entity_type', 'entity_id', 'lang'], translations.map(translation => ({
+    entity_type: translation.entityType,
+    entity_id: translation.entityId,
+    lang: translation.lang,
+    fields: translation.fields,
+    content_hash: hashes.get(translationKey(translation)) || null,
+  })));
+}
+
+type RetirableTable = 'achievement_groups' | 'achievement_categories' | 'achievements';
+
+interface RetirementResult {
+  retiredIds: string[];
+  restoredIds: string[];
+}
+
+const countRetirements = (result: RetirementResult): RetirementCounts => ({
+  retired: result.retiredIds.length,
+  restored: result.restoredIds.length,
+});
+
+// Mark rows missing from the upstream ID list as retired, and clear the mark on rows that are back.
+// Retired rows are never deleted. An empty list is taken as an upstream glitch, not a mass removal.
+async function syncRetirement(
+  client: PoolClient,
+  table: RetirableTable,
+  upstreamIds: Array<string | number>
+): Promise<RetirementResult> {
+  if (upstreamIds.length === 0) {
+    console.warn(`Upstream ID list for ${table} is empty; skipping retirement`);
+    return { retiredIds: [], restoredIds: [] };
   }
+
+  const ids = upstreamIds.map(String);
+  const retired = await client.query(
+    `UPDATE ${table} SET retired_at = CURRENT_TIMESTAMP
+     WHERE retired_at IS NULL AND NOT (id::text = ANY($1::text[]))
+     RETURNING id`,
+    [ids]
+  );
+  const restored = await client.query(
+    `UPDATE ${table} SET retired_at = NULL
+     WHERE retired_at IS NOT NULL AND id::text = ANY($1::text[])
+     RETURNING id`,
+    [ids]
+  );
+  return {
+    retiredIds: retired.rows.map(row => String(row.id)),
+    restoredIds: restored.rows.map(row => String(row.id)),
+  };
 }
 
-// Clean up Daily/Weekly/Monthly achievements from database
-async function cleanupFilteredAchievements(): Promise<void> {
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+// Record a history version for every added achievement and every change to a tracked field.
+// Rows rewritten without a content change (full mode) leave no version behind. Rows whose hash a
+// migration cleared only count changes to fields that already had a value, so filling in a new
+// column is not reported as a patch change.
+async function recordAchievementHistory(
+  client: PoolClient,
+  runId: number,
+  achievements: Achievement[],
+  addedIds: string[],
+  previous: Map<number, AchievementSnapshot>,
+  storedHashes: Map<string, string | null>
+): Promise<void> {
+  const added = new Set(addedIds);
+  const changes: AchievementChange[] = [];
 
-    // Delete achievements with Daily, Weekly, or Monthly flags
-    const filterFlags = ['Daily', 'Weekly', 'Monthly'];
-    const result = await client.query(
-      `DELETE FROM achievements WHERE flags && $1::text[]`,
-      [filterFlags]
-    );
+  for (const achievement of achievements) {
+    const snapshot = snapshotAchievement(achievement);
+    if (added.has(String(achievement.id))) {
+      changes.push({ achievementId: achievement.id, changeType: 'added', content: snapshot, diff: null });
+      continue;
+    }
+    const before = previous.get(achievement.id);
+    if (!before) continue;
+    let diff = diffSnapshots(before, snapshot);
+    if (storedHashes.get(String(achievement.id)) === null) {
+      diff = Object.fromEntries(Object.entries(diff).filter(([, change]) => change.from !== null)) as FieldDiff;
+    }
+    if (Object.keys(diff).length > 0) {
+      changes.push({ achievementId: achievement.id, changeType: 'changed', content: snapshot, diff });
+    }
+  }
 
-    // Also clean up any orphaned category-achievement relationships
-    // (achievements that were deleted but relationships remain)
-    await client.query(
-      `DELETE FROM category_achievements 
-       WHERE achievement_id NOT IN (SELECT id FROM achievements)`
-    );
+  await recordAchievementChanges(client, runId, changes);
+  if (changes.length > 0) {
+    console.log(`Recorded ${changes.length} achievement history version(s)`);
+  }
+}
 
-    await client.query('COMMIT');
-    console.log(`Deleted ${result.rowCount} Daily/Weekly/Monthly achievements from database`);
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
+// Record retired and restored achievements in their history, with the content they had
+async function recordRetirementHistory(client: PoolClient, runId: number, result: RetirementResult): Promise<void> {
+  const ids = [...result.retiredIds, ...result.restoredIds].map(Number);
+  const stored = await loadStoredSnapshots(client, ids);
+  const restored = new Set(result.restoredIds);
+
+  const changes: AchievementChange[] = [];
+  for (const id of ids) {
+    const content = stored.get(id);
+    if (!content) continue;
+    changes.push({
+      achievementId: id,
+      changeType: restored.has(String(id)) ? 'restored' : 'retired',
+      content,
+      diff: null,
+    });
   }
+  await recordAchievementChanges(client, runId, changes);
 }
 
+// Clean up Daily/Weekly/Monthly achievements from database
+async function cleanupFilteredAchievements(client: PoolClient): Promise<void> {
+  // Delete achievements with Daily, Weekly, or Monthly flags
+  const filterFlags = ['Daily', 'Weekly', 'Monthly'];
+  const result = await client.query(
+    `DELETE FROM achievements WHERE flags && $1::text[]`,
+    [filterFlags]
+  );
+
+  // Also clean up any orphaned category-achievement relationships
+  // (achievements that were deleted but relationships remain)
+  await client.query(
+    `DELETE FROM category_achievements 
+     WHERE achievement_id NOT IN (SELECT id FROM achievements)`
+  );
+
+  console.log(`Deleted ${result.rowCount} Daily/Weekly/Monthly achievements from database`);
+}
@@ -0,0 +1,424 @@
+import { createHmac } from 'crypto';
+import { pool } from '../db/connection.js';
+import { EntityChangeCounts, formatCounts } from './changeDetection.js';
+
+// Outbound webhooks, fired when a sync finishes.
+// Subscriptions live in the webhooks table; every event sent to a subscription is a row in
+// webhook_deliveries, updated after each attempt. Deliveries run in the background with
+// retries, so a slow or broken receiver never holds up the sync.
+
+export const WEBHOOK_EVENTS = ['sync.succeeded', 'sync.failed', 'achievements.added'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// 'json' posts the payload as is; 'discord' posts it as a Discord embed
+export const WEBHOOK_FORMATS = ['json', 'discord'] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// A subscription as returned by the API; the secret itself is never read back
+export interface Webhook {
+  id: number;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  has_secret: boolean;
+  min_new_achievements: number;
+  description: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookInput {
+  url?: string;
+  format?: WebhookFormat;
+  events?: WebhookEvent[];
+  secret?: string | null;
+  min_new_achievements?: number;
+  description?: string | null;
+  enabled?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  run_id: number | null;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Body of a 'json' delivery
+export interface WebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  run: {
+    id: number;
+    mode: string;
+    durationMs: number;
+    counts: Record<string, unknown>;
+  };
+  // 'sync.failed'
+  error?: string;
+  // 'achievements.added': how many were added and the first few of them
+  achievements?: {
+    added: number;
+    sample: { id: number; name: string }[];
+  };
+}
+
+// How a sync ended, as reported by the sync service
+export interface SyncOutcome {
+  runId: number;
+  mode: string;
+  durationMs: number;
+  counts: Record<string, unknown>;
+  // Set when the sync failed
+  error?: string;
+  // Achievements the sync added
+  addedAchievements?: number;
+}
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+interface WebhookTarget {
+  id: number;
+  url: string;
+  format: WebhookFormat;
+  secret: string | null;
+  min_new_achievements: number;
+}
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) && value > 0 ? value : fallback;
+};
+
+const deliveryOptions = {
+  maxAttempts: envNumber('WEBHOOK_MAX_ATTEMPTS', 5),
+  baseDelayMs: envNumber('WEBHOOK_RETRY_DELAY_MS', 2000),
+  timeoutMs: envNumber('WEBHOOK_TIMEOUT_MS', 10000),
+};
+
+// Added achievements listed by name in an 'achievements.added' delivery
+const ADDED_SAMPLE_SIZE = 10;
+
+const WEBHOOK_COLUMNS = `id, url, format, events, secret IS NOT NULL AS has_secret,
+  min_new_achievements, description, enabled, created_at, updated_at`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function validateWebhookInput(input: WebhookInput, requireAll: boolean): void {
+  if (input.url !== undefined || requireAll) {
+    let url: URL;
+    try {
+      url = new URL(String(input.url));
+    } catch {
+      throw new WebhookValidationError('url must be an absolute URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new WebhookValidationError('url must use http or https');
+    }
+  }
+  if (input.format !== undefined && !WEBHOOK_FORMATS.includes(input.format)) {
+    throw new WebhookValidationError(`format must be one of: ${WEBHOOK_FORMATS.join(', ')}`);
+  }
+  if (input.events !== undefined || requireAll) {
+    if (
+      !Array.isArray(input.events) ||
+      input.events.length === 0 ||
+      !input.events.every(e => WEBHOOK_EVENTS.includes(e))
+    ) {
+      throw new WebhookValidationError(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+  }
+  if (input.secret !== undefined && input.secret !== null && (typeof input.secret !== 'string' || !input.secret)) {
+    throw new WebhookValidationError('secret must be a non-empty string or null');
+  }
+  if (
+    input.min_new_achievements !== undefined &&
+    (!Number.isInteger(input.min_new_achievements) || input.min_new_achievements < 1)
+  ) {
+    throw new WebhookValidationError('min_new_achievements must be a positive integer');
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    throw new WebhookValidationError('description must be a string or null');
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new WebhookValidationError('enabled must be a boolean');
+  }
+}
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const result = await pool.query(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks ORDER BY id`);
+  return result.rows;
+}
+
+export async function getWebhook(id: number): Promise<Webhook | null> {
+  const result = await pool.query(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1`, [id]);
+  return result.rows[0] ?? null;
+}
+
+// Throws WebhookValidationError for a missing or invalid field
+export async function createWebhook(input: WebhookInput): Promise<Webhook> {
+  validateWebhookInput(input, true);
+  const result = await pool.query(
+    `INSERT INTO webhooks (url, format, events, secret, min_new_achievements, description, enabled)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [
+      input.url,
+      input.format ?? 'json',
+      input.events,
+      input.secret ?? null,
+      input.min_new_achievements ?? 1,
+      input.description ?? null,
+      input.enabled ?? true,
+    ]
+  );
+  return result.rows[0];
+}
+
+// Change only the fields present in input. Returns null if the webhook does not exist.
+export async function updateWebhook(id: number, input: WebhookInput): Promise<Webhook | null> {
+  validateWebhookInput(input, false);
+  const fields = (
+    ['url', 'format', 'events', 'secret', 'min_new_achievements', 'description', 'enabled'] as const
+  ).filter(field => input[field] !== undefined);
+  if (fields.length === 0) return getWebhook(id);
+
+  const result = await pool.query(
+    `UPDATE webhooks SET ${fields.map((field, i) => `${field} = $${i + 2}`).join(', ')}
+     WHERE id = $1
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [id, ...fields.map(field => input[field])]
+  );
+  return result.rows[0] ?? null;
+}
+
+export async function deleteWebhook(id: number): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM webhooks WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Delivery log of one webhook, newest first
+export async function listWebhookDeliveries(webhookId: number, limit = 50): Promise<WebhookDelivery[]> {
+  const result = await pool.query(
+    `SELECT * FROM webhook_deliveries WHERE webhook_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2`,
+    [webhookId, limit]
+  );
+  return result.rows;
+}
+
+// Value of the X-Pathfinder-Signature header: HMAC-SHA256 over "<timestamp>.<body>".
+// Receivers recompute it with the shared secret and reject stale timestamps to stop replays.
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+const DISCORD_COLORS: Record<WebhookEvent, number> = {
+  'sync.succeeded': 0x2ecc71,
+  'sync.failed': 0xe74c3c,
+  'achievements.added': 0xf1c40f,
+};
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export function toDiscordMessage(payload: WebhookPayload) {
+  const duration = `${(payload.run.durationMs / 1000).toFixed(1)}s`;
+  let title: string;
+  let description: string;
+  const fields: { name: string; value: string; inline: boolean }[] = [];
+
+  if (payload.event === 'sync.failed') {
+    title = 'Sync failed';
+    description = truncate(payload.error || 'Unknown error', 4000);
+  } else if (payload.event === 'achievements.added') {
+    const added = payload.achievements?.added ?? 0;
+    const sample = payload.achievements?.sample ?? [];
+    title = `${added} new achievement${added === 1 ? '' : 's'}`;
+    const lines = sample.map(a => `• ${a.name}`);
+    if (added > sample.length) lines.push(`…and ${added - sample.length} more`);
+    description = truncate(lines.join('\n'), 4000);
+  } else {
+    title = 'Sync succeeded';
+    description = `${payload.run.mode} sync finished in ${duration}`;
+    for (const [entity, counts] of Object.entries(payload.run.counts)) {
+      if (counts && typeof counts === 'object' && 'unchanged' in counts) {
+        fields.push({ name: entity, value: formatCounts(counts as EntityChangeCounts), inline: false });
+      }
+    }
+  }
+
+  return {
+    username: 'GW2 Pathfinder',
+    embeds: [
+      {
+        title,
+        description,
+        color: DISCORD_COLORS[payload.event],
+        fields,
+        timestamp: payload.timestamp,
+        footer: { text: `Sync run ${payload.run.id}` },
+      },
+    ],
+  };
+}
+
+// POST one delivery until it succeeds, fails with a non-retryable status or runs out of
+// attempts, recording each attempt on the delivery row
+async function deliver(target: WebhookTarget, deliveryId: number, payload: WebhookPayload): Promise<void> {
+  const body = JSON.stringify(target.format === 'discord' ? toDiscordMessage(payload) : payload);
+
+  for (let attempt = 1; ; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'gw2-pathfinder-webhooks',
+      'X-Pathfinder-Event': payload.event,
+      'X-Pathfinder-Delivery': String(deliveryId),
+      'X-Pathfinder-Timestamp': timestamp,
+    };
+    if (target.secret) {
+      headers['X-Pathfinder-Signature'] = signPayload(target.secret, timestamp, body);
+    }
+
+    let status: number | null = null;
+    let error: string;
+    let retryable = true;
+    let retryAfter: number | null = null;
+    try {
+      const res = await fetch(target.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(deliveryOptions.timeoutMs),
+      });
+      status = res.status;
+      if (res.ok) {
+        await pool.query(
+          `UPDATE webhook_deliveries
+           SET status = 'succeeded', attempts = $2, response_status = $3, error = NULL,
+               delivered_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [deliveryId, attempt, status]
+        );
+        return;
+      }
+      error = `HTTP ${res.status}`;
+      // Other 4xx: the receiver rejected the request; sending it again will not help
+      retryable = res.status === 429 || res.status >= 500;
+      retryAfter = parseRetryAfter(res.headers.get('retry-after'));
+    } catch (fetchError) {
+      // Network error or timeout
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+
+    const final = !retryable || attempt >= deliveryOptions.maxAttempts;
+    await pool.query(
+      `UPDATE webhook_deliveries SET status = $2, attempts = $3, response_status = $4, error = $5 WHERE id = $1`,
+      [deliveryId, final ? 'failed' : 'pending', attempt, status, error]
+    );
+    if (final) {
+      console.warn(`Webhook ${target.id} delivery ${deliveryId} failed after ${attempt} attempt(s): ${error}`);
+      return;
+    }
+    await sleep(retryAfter ?? deliveryOptions.baseDelayMs * 2 ** (attempt - 1));
+  }
+}
+
+// Log and deliver an event to every enabled webhook subscribed to it
+async function dispatch(
+  payload: WebhookPayload,
+  accepts: (target: WebhookTarget) => boolean = () => true
+): Promise<void> {
+  const result = await pool.query(
+    `SELECT id, url, format, secret, min_new_achievements FROM webhooks WHERE enabled AND $1 = ANY(events)`,
+    [payload.event]
+  );
+  const targets: WebhookTarget[] = result.rows.filter(accepts);
+
+  await Promise.all(
+    targets.map(async target => {
+      const inserted = await pool.query(
+        `INSERT INTO webhook_deliveries (webhook_id, event, run_id, payload) VALUES ($1, $2, $3, $4) RETURNING id`,
+        [target.id, payload.event, payload.run.id, JSON.stringify(payload)]
+      );
+      await deliver(target, inserted.rows[0].id, payload);
+    })
+  );
+}
+
+async function sendSyncNotifications(outcome: SyncOutcome): Promise<void> {
+  const base = {
+    timestamp: new Date().toISOString(),
+    run: { id: outcome.runId, mode: outcome.mode, durationMs: outcome.durationMs, counts: outcome.counts },
+  };
+
+  if (outcome.error !== undefined) {
+    await dispatch({ event: 'sync.failed', ...base, error: outcome.error });
+    return;
+  }
+
+  // Look up the sample before dispatching anything, so a failed query cannot leave a
+  // delivery running with nobody waiting on it
+  const added = outcome.addedAchievements ?? 0;
+  const sample = added > 0
+    ? (await pool.query(
+        `SELECT achievement_id AS id, content->>'name' AS name FROM achievement_history
+         WHERE run_id = $1 AND change_type = 'added'
+         ORDER BY achievement_id
+         LIMIT $2`,
+        [outcome.runId, ADDED_SAMPLE_SIZE]
+      )).rows
+    : null;
+
+  const deliveries = [dispatch({ event: 'sync.succeeded', ...base })];
+  if (sample) {
+    deliveries.push(
+      dispatch(
+        { event: 'achievements.added', ...base, achievements: { added, sample } },
+        target => added >= target.min_new_achievements
+      )
+    );
+  }
+  await Promise.all(deliveries);
+}
+
+// Notifications still being delivered in the background
+const inFlight = new Set<Promise<void>>();
+
+// Tell subscribers how a sync ended. Returns immediately; deliveries and their retries
+// run in the background and their failures are only logged.
+export function notifySyncResult(outcome: SyncOutcome): void {
+  const notification = sendSyncNotifications(outcome).catch(error => {
+    console.error(`Failed to send webhooks for sync run ${outcome.runId}:`, error);
+  });
+  inFlight.add(notification);
+  notification.finally(() => inFlight.delete(notification));
+}
+
+// Wait for background deliveries to finish, for short-lived processes (the CLI) that exit after a sync
+export async function waitForWebhooks(): Promise<void> {
+  await Promise.all(inFlight);
+}
@@ -28,7 +28,12 @@ import {
   Calendar,
   X,
   Search,
-  GripVertical
+  GripVertical,
+  ListChecks,
+  Circle,
+  Users,
+  Flag,
+  Copy
 } from 'lucide-react';
 
 // --- Types ---
@@ -72,6 +77,24 @@ interface Title {
   name: string;
 }
 
+interface Skin {
+  id: number;
+  name: string;
+  description?: string;
+  type?: string;
+  rarity?: string;
+  icon?: string;
+}
+
+interface Mini {
+  id: number;
+  name: string;
+  unlock?: string;
+  icon?: string;
+  item_id?: number;
+  rarity?: string;
+}
+
 interface AchievementReward {
   type: string;
   id?: number;
@@ -81,6 +104,15 @@ interface AchievementReward {
   item?: Item;     // Item data when type is 'Item'
 }
 
+interface AchievementBit {
+  type: 'Item' | 'Skin' | 'Minipet' | 'Text';
+  id?: number;
+  text?: string;
+  item?: Item;     // Item data when type is 'Item'
+  skin?: Skin;     // Skin data when type is 'Skin'
+  mini?: Mini;     // Mini data when type is 'Minipet'
+}
+
 interface Achievement {
   id: number;
   icon?: string;
@@ -93,6 +125,23 @@ interface Achievement {
   tiers: AchievementTier[];
   rewards?: AchievementReward[];
   prerequisites?: number[]; // Achievement IDs that must be completed first
+  bits?: AchievementBit[]; // Collection steps; UserProgress.bits lists the indexes done
+  point_cap?: number; // Most AP a Repeatable achievement awards across all repeats
+}
+
+interface AchievementPoints {
+  repeatable: boolean;
+  tierTotal: number;      // AP of one pass through the tiers
+  max: number | null;     // null for a repeatable without a cap
+  earned: number;
+  remaining: number;      // for an uncapped repeatable, what is left of the current pass
+}
+
+interface AccountPoints {
+  earned: number;
+  remaining: number;
+  max: number;
+  uncappedRepeatables: number;
 }
 
 interface UserProgress {
@@ -105,6 +154,38 @@ interface UserProgress {
   unlocked?: boolean;
 }
 
+// What an API key may access, from /api/me/tokeninfo
+interface KeyPermissionReport {
+  name: string;
+  type: string | null;
+  permissions: string[];
+  present: string[];
+  missing: string[];
+  // Missing permissions that progress cannot be synced without
+  missingRequired: string[];
+}
+
+// API key permissions Pathfinder checks for, and what each one gives access to
+const KEY_PERMISSION_INFO: { id: string; required: boolean; description: string }[] = [
+  { id: 'account', required: true, description: 'Account name and expansion access' },
+  { id: 'progression', required: true, description: 'Achievement progress, for your path, recommendations and AP' },
+  { id: 'unlocks', required: false, description: 'Unlocked skins, minis and dyes' },
+  { id: 'wallet', required: false, description: 'Wallet currencies' },
+  { id: 'inventories', required: false, description: 'Bank, material storage and inventories' },
+];
+
+// An account saved in this browser. Its synced progress is cached separately (see accountCacheKey).
+interface SavedAccount {
+  id: string;
+  apiKey: string;
+  name?: string;
+  starred: number[];
+}
+
+interface AccountProgressCache {
+  progress: Record<number, UserProgress>;
+  access: string[] | null;
+}
 
 interface CacheEnvelope<T> {
   timestamp: number;
@@ -115,9 +196,10 @@ interface CacheEnvelope<T> {
 
 // Backend API base URL (change this to your deployed backend URL in production)
 const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:3001/api';
-const GW2_API_BASE = 'https://api.guildwars2.com/v2'; // Still used for user progress
 const CACHE_PREFIX = 'gw2_pf_';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in ms
+// Saved accounts' synced progress, kept when the rest of the cache is cleared
+const ACCOUNT_PROGRESS_PREFIX = 'progress_';
 
 // Helper to check if an achievement should be filtered out (Daily/Weekly/Monthly)
 const shouldFilterAchievement = (achievement: Achievement): boolean => {
@@ -160,9 +242,17 @@ const CacheManager = {
     }
   },
 
+  remove: (key: string): void => {
+    localStorage.removeItem(CACHE_PREFIX + key);
+  },
+
   clear: () => {
     Object.keys(localStorage).forEach(key => {
-      if (key.startsWith(CACHE_PREFIX) && key !== `${CACHE_PREFIX}apikey`) {
+      if (
+        key.startsWith(CACHE_PREFIX) &&
+        key !== `${CACHE_PREFIX}apikey` &&
+        !key.startsWith(CACHE_PREFIX + ACCOUNT_PROGRESS_PREFIX)
+      ) {
         localStorage.removeItem(key);
       }
     });
@@ -179,13 +269,55 @@ const CacheManager = {
   }
 };
 
-const fetchWithBackoff = async (url: string, retries = 3, delay = 1000): Promise<any> => {
+// --- Saved Accounts ---
+
+const ACCOUNTS_KEY = 'gw2_accounts';
+const ACTIVE_ACCOUNT_KEY = 'gw2_active_account';
+
+const newAccountId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const accountCacheKey = (accountId: string) => `${ACCOUNT_PROGRESS_PREFIX}${accountId}`;
+
+// Label for accounts that have not been synced yet
+const accountLabel = (account: SavedAccount) =>
+  account.name || `Key ending ${account.apiKey.slice(-4)}`;
+
+// Load saved accounts, moving the single key, name and starred list of older versions into the first one
+const loadSavedAccounts = (): SavedAccount[] => {
+  try {
+    const stored = localStorage.getItem(ACCOUNTS_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+
+    const legacyKey = localStorage.getItem('gw2_api_key');
+    if (legacyKey) {
+      const account: SavedAccount = {
+        id: newAccountId(),
+        apiKey: legacyKey,
+        name: localStorage.getItem('gw2_account_name') || undefined,
+        starred: JSON.parse(localStorage.getItem('gw2_starred_achievements') || '[]'),
+      };
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify([account]));
+      localStorage.setItem(ACTIVE_ACCOUNT_KEY, account.id);
+      localStorage.removeItem('gw2_api_key');
+      localStorage.removeItem('gw2_account_name');
+      localStorage.removeItem('gw2_starred_achievements');
+      return [account];
+    }
+  } catch (e) {
+    console.warn("Failed to load saved accounts", e);
+  }
+  return [];
+};
+
+const fetchWithBackoff = async (url: string, init: RequestInit = {}, retries = 3, delay = 1000): Promise<any> => {
   try {
-    const res = await fetch(url);
+    const res = await fetch(url, init);
     if (!res.ok) {
       if (res.status === 429 && retries > 0) {
         await new Promise(r => setTimeout(r, delay));
-        return fetchWithBackoff(url, retries - 1, delay * 2);
+        return fetchWithBackoff(url, init, retries - 1, delay * 2);
       }
       throw new Error(`API Error: ${res.status}`);
     }
@@ -193,12 +325,48 @@ const fetchWithBackoff = async (url: string, retries = 3, delay = 1000): Promise
   } catch (err) {
     if (retries > 0) {
       await new Promise(r => setTimeout(r, delay));
-      return fetchWithBackoff(url, retries - 1, delay * 2);
+      return fetchWithBackoff(url, init, retries - 1, delay * 2);
     }
     throw err;
   }
 };
 
+// Everything synced for one account. Progress stays empty and access null when the key lacks the permission.
+interface AccountSnapshot {
+  report: KeyPermissionReport;
+  name?: string;
+  access: string[] | null;
+  progress: Record<number, UserProgress>;
+}
+
+// Fetch an account's key permissions, details and progress through the backend, which sends the key
+// upstream in a header. Data the key may not read is skipped; resolves to null if the key is rejected.
+const fetchAccountSnapshot = async (apiKey: string): Promise<AccountSnapshot | null> => {
+  const auth = { headers: { Authorization: `Bearer ${apiKey}` } };
+  const tokenRes = await fetch(`${API_BASE}/me/tokeninfo`, auth);
+  if (tokenRes.status === 401 || tokenRes.status === 403) return null;
+  if (!tokenRes.ok) throw new Error(`API Error: ${tokenRes.status}`);
+
+  const report: KeyPermissionReport = await tokenRes.json();
+  const snapshot: AccountSnapshot = { report, access: null, progress: {} };
+
+  if (report.present.includes('account')) {
+    const accountData = await fetchWithBackoff(`${API_BASE}/me/account`, auth);
+    snapshot.name = accountData.name || undefined;
+    snapshot.access = accountData.access || [];
+  }
+
+  if (report.present.includes('progression')) {
+    const data: UserProgress[] = await fetchWithBackoff(`${API_BASE}/me/achievements`, auth);
+    snapshot.progress = data.reduce((acc: Record<number, UserProgress>, p) => {
+      acc[p.id] = p;
+      return acc;
+    }, {});
+  }
+
+  return snapshot;
+};
+
 // --- Helper Functions ---
 
 // Parse and render text with Guild Wars 2 color tags (<c=#hexcolor>text</c>)
@@ -297,6 +465,211 @@ const renderStyledText = (text: string) => {
   return <>{parts}</>;
 };
 
+// AP earned and still obtainable for one achievement, tier by tier and including repeat caps
+// (mirrors calculateAchievementPoints on the backend)
+const getAchievementPoints = (achievement: Achievement, progress?: UserProgress): AchievementPoints => {
+  const tierTotal = achievement.tiers.reduce((acc, t) => acc + t.points, 0);
+  const repeatable = (achievement.flags || []).includes('Repeatable');
+  const current = progress?.current || 0;
+  const repeated = progress?.repeated || 0;
+
+  // For a repeatable, done stays set after the first completion and current counts the pass under way
+  const passDone = !!progress?.done && !(repeatable && repeated > 0);
+  const passEarned = achievement.tiers.reduce(
+    (acc, t) => acc + (passDone || current >= t.count ? t.points : 0),
+    0
+  );
+
+  if (!repeatable) {
+    return { repeatable, tierTotal, max: tierTotal, earned: passEarned, remaining: tierTotal - passEarned };
+  }
+
+  // A negative or missing point_cap means the repeats are uncapped
+  const cap = achievement.point_cap != null && achievement.point_cap >= 0 ? achievement.point_cap : null;
+  const earned = cap !== null
+    ? Math.min(cap, repeated * tierTotal + passEarned)
+    : repeated * tierTotal + passEarned;
+  return {
+    repeatable,
+    tierTotal,
+    max: cap,
+    earned,
+    remaining: cap !== null ? Math.max(0, cap - earned) : tierTotal - passEarned,
+  };
+};
+
+// AP earned and still obtainable for an account across the loaded achievements
+// (mirrors summarizeAccountPoints on the backend)
+const getAccountPoints = (
+  achievements: Record<number, Achievement>,
+  userProgress: Record<number, UserProgress>
+): AccountPoints => {
+  const summary: AccountPoints = { earned: 0, remaining: 0, max: 0, uncappedRepeatables: 0 };
+  Object.values(achievements).forEach(achievement => {
+    const points = getAchievementPoints(achievement, userProgress[achievement.id]);
+    summary.earned += points.earned;
+    summary.remaining += points.remaining;
+    if (points.max !== null) {
+      summary.max += points.max;
+    } else {
+      summary.max += points.earned + points.remaining;
+      summary.uncappedRepeatables++;
+    }
+  });
+  return summary;
+};
+
+// Map mastery region names to account access names
+const REGION_ACCESS: Record<string, string> = {
+  'Tyria': 'GuildWars2',
+  'Maguuma': 'HeartOfThorns',
+  'Desert': 'PathOfFire',
+  'Tundra': 'IcebroodSaga',
+  'Jade': 'EndOfDragons',
+  'Sky': 'SecretsOfTheObscure',
+  'Wild': 'JanthirWilds',
+  'Magic': 'VisionsOfEternity'
+};
+
+// Check if an achievement is locked for an account (mastery region or prerequisites).
+// Region locks are skipped when the account's access is unknown (null).
+const isAchievementLockedFor = (
+  achievement: Achievement,
+  userProgress: Record<number, UserProgress>,
+  accountAccess: string[] | null
+): boolean => {
+  // Check prerequisites first
+  if (achievement.prerequisites && achievement.prerequisites.length > 0) {
+    // Check if all prerequisites are completed
+    const allPrerequisitesMet = achievement.prerequisites.every(prereqId => {
+      const prereqProgress = userProgress[prereqId];
+      return prereqProgress && (prereqProgress.done || (prereqProgress.repeated && prereqProgress.repeated > 0));
+    });
+    
+    if (!allPrerequisitesMet) {
+      return true; // Locked - prerequisites not met
+    }
+  }
+  
+  // Check mastery region locks
+  if (accountAccess && achievement.rewards && achievement.rewards.length > 0) {
+    // Check if any reward is a Mastery Point with a region
+    const masteryRewards = achievement.rewards.filter(r => r.type === 'Mastery' && r.region);
+    if (masteryRewards.length > 0) {
+      // Check if player has access to the region
+      for (const reward of masteryRewards) {
+        if (reward.region) {
+          const requiredAccess = REGION_ACCESS[reward.region];
+          if (requiredAccess && !accountAccess.includes(requiredAccess)) {
+            return true; // Locked - player doesn't have access
+          }
+        }
+      }
+    }
+  }
+  
+  return false; // Not locked
+};
+
+// Smart scoring for achievement recommendations, from one account's progress
+// Considers: AP value, loot value, ease of completion, unlock potential, prerequisites status
+const scoreAchievement = (
+  progress: UserProgress,
+  achievement: Achievement,
+  unlocksMap: Record<number, number[]>,
+  userProgress: Record<number, UserProgress>
+): number => {
+  if (!achievement) return 0;
+  
+  let score = 0;
+  
+  // 1. AP Value (0-100 points, normalized) - only the AP still obtainable counts
+  const { remaining: remainingAP } = getAchievementPoints(achievement, progress);
+  score += Math.min(100, remainingAP * 0.5); // Max 200 AP = 100 points
+  
+  // 2. Loot Value (0-80 points)
+  if (achievement.rewards) {
+    let lootValue = 0;
+    achievement.rewards.forEach(reward => {
+      if (reward.type === 'Item' && reward.item) {
+        // Base value from vendor_value
+        const vendorValue = reward.item.vendor_value || 0;
+        lootValue += vendorValue * 0.001; // Convert copper to points (1000 copper = 1 point)
+        
+        // Rarity bonus
+        const rarityMultiplier: Record<string, number> = {
+          'Legendary': 50,
+          'Ascended': 30,
+          'Exotic': 15,
+          'Rare': 8,
+          'Masterwork': 4,
+          'Fine': 2,
+          'Basic': 1
+        };
+        if (reward.item.rarity) {
+          lootValue += rarityMultiplier[reward.item.rarity] || 0;
+        }
+        
+        // Special item bonuses (bags, mounts, etc.)
+        const itemName = reward.item.name.toLowerCase();
+        const itemType = reward.item.type?.toLowerCase() || '';
+        if (itemType === 'bag' || itemName.includes('bag')) {
+          const bagSize = reward.item.details?.size || 0;
+          if (bagSize >= 20) lootValue += 20;
+          else if (bagSize >= 15) lootValue += 10;
+        }
+        if (itemName.includes('mount') || itemName.includes('skyscale') || itemName.includes('griffon')) {
+          lootValue += 40;
+        }
+      } else if (reward.type === 'Mastery') {
+        lootValue += 25; // Mastery points are valuable
+      } else if (reward.type === 'Title') {
+        lootValue += 5; // Titles have some value
+      }
+    });
+    score += Math.min(80, lootValue);
+  }
+  
+  // 3. Ease of Completion (0-60 points)
+  // Higher progress = easier to complete
+  if (progress.current && progress.max) {
+    const progressPercent = (progress.current / progress.max) * 100;
+    score += Math.min(60, progressPercent * 0.6); // 100% progress = 60 points
+  } else {
+    // No progress yet - check if it's simple (few tiers, no prerequisites)
+    const tierCount = achievement.tiers.length;
+    const hasPrerequisites = achievement.prerequisites && achievement.prerequisites.length > 0;
+    if (!hasPrerequisites && tierCount <= 3) {
+      score += 20; // Simple achievements get a bonus
+    }
+  }
+  
+  // 4. Unlock Potential (0-50 points)
+  const unlocks = unlocksMap[achievement.id] || [];
+  score += Math.min(50, unlocks.length * 5); // Each unlock = 5 points, max 50
+  
+  // 5. Prerequisites Status (0-30 points)
+  // Bonus if all prerequisites are completed (ready to start)
+  if (achievement.prerequisites && achievement.prerequisites.length > 0) {
+    const allPrereqsMet = achievement.prerequisites.every(prereqId => {
+      const prereqProg = userProgress[prereqId];
+      return prereqProg && (prereqProg.done || (prereqProg.repeated && prereqProg.repeated > 0));
+    });
+    if (allPrereqsMet) {
+      score += 30; // Ready to start = bonus
+    }
+  } else {
+    score += 20; // No prerequisites = easier to start
+  }
+  
+  // 6. Meta Achievement Bonus (0-40 points)
+  if (achievement.flags.includes('CategoryDisplay')) {
+    score += 40; // Meta achievements are high value
+  }
+  
+  return score;
+};
+
 // --- Components ---
 
 // Item Tooltip Component
@@ -581,6 +954,8 @@ const Sidebar = ({
   onSelectCategory,
   onGoHome,
   onGoToMyPath,
+  onGoToCompare,
+  onGoToSquad,
   currentView,
   isLoadingGroups,
   userProgress,
@@ -594,7 +969,9 @@ const Sidebar = ({
   onSelectCategory: (id: number) => void;
   onGoHome: () => void;
   onGoToMyPath: () => void;
-  currentView: 'dashboard' | 'mypath' | 'category';
+  onGoToCompare: () => void;
+  onGoToSquad: () => void;
+  currentView: 'dashboard' | 'mypath' | 'compare' | 'squad' | 'category';
   isLoadingGroups: boolean;
   userProgress: Record<number, UserProgress>;
   achievementsCache: Record<number, Achievement>;
@@ -711,6 +1088,20 @@ const Sidebar = ({
             <Route size={16} />
             <span>My Path</span>
           </button>
+          <button 
+            onClick={onGoToCompare}
+            className={`w-full text-left px-3 py-2 rounded mb-2 flex items-center gap-2 ${currentView === 'compare' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+          >
+            <Users size={16} />
+            <span>Compare</span>
+          </button>
+          <button 
+            onClick={onGoToSquad}
+            className={`w-full text-left px-3 py-2 rounded mb-2 flex items-center gap-2 ${currentView === 'squad' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'}`}
+          >
+            <Flag size={16} />
+            <span>Squad Planner</span>
+          </button>
 
           <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 px-3 mt-4">
             Achievement Groups
@@ -822,7 +1213,7 @@ const AchievementCard = ({
   achievementsCache?: Record<number, Achievement>;
   userProgress?: Record<number, UserProgress>;
   onNeedAchievements?: (ids: number[]) => void;
-  accountAccess?: string[];
+  accountAccess?: string[] | null;
   isAchievementLocked?: (achievement: Achievement) => boolean;
   onNavigateToAchievement?: (achievementId: number) => void;
   achievementToCategoryMap?: Record<number, number>;
@@ -836,11 +1227,12 @@ const AchievementCard = ({
 }) => {
   const [iconError, setIconError] = useState(false);
   const [showPrerequisites, setShowPrerequisites] = useState(false);
+  const [showChecklist, setShowChecklist] = useState(false);
   
   // Use props with defaults
   const cache = achievementsCache || {};
   const progressMap = userProgress || {};
-  const account = accountAccess || [];
+  const account = accountAccess ?? null;
   const checkLocked = isAchievementLocked || (() => false);
   const isDone = progress?.done || (progress?.repeated && progress.repeated > 0);
   const current = progress?.current || 0;
@@ -872,27 +1264,26 @@ const AchievementCard = ({
     setIconError(false);
   }, [achievement.id, achievement.icon, categoryIcon]);
   
-  // Calculate display Tier points
-  const totalPoints = achievement.tiers.reduce((acc, t) => acc + t.points, 0);
+  // Calculate display AP (a repeatable shows its cap across all repeats)
+  const points = getAchievementPoints(achievement, progress);
+  const totalPoints = points.max ?? points.tierTotal;
   
   // Check if achievement has multiple tiers (tiered achievement)
   const isTiered = achievement.tiers.length > 1;
   
-  // Calculate current tier progress and earned AP for tiered achievements
+  // Calculate current tier progress for tiered achievements
   const getTierProgress = useMemo(() => {
     if (!isTiered || !progress) {
       return null;
     }
     
     const currentCount = progress.current || 0;
-    let earnedAP = 0;
     let currentTierIndex = -1;
     
-    // Find which tier the user is currently on and calculate earned AP
+    // Find which tier the user is currently on
     for (let i = 0; i < achievement.tiers.length; i++) {
       const tier = achievement.tiers[i];
       if (currentCount >= tier.count) {
-        earnedAP += tier.points;
         currentTierIndex = i;
       }
     }
@@ -903,7 +1294,6 @@ const AchievementCard = ({
     }
     
     return {
-      earnedAP,
       currentTierIndex,
       currentCount
     };
@@ -1021,7 +1411,8 @@ const AchievementCard = ({
                   </button>
                 )}
                 <span className="flex items-center text-amber-500 font-bold text-sm bg-amber-950/30 px-2 py-0.5 rounded border border-amber-900/50">
-                  {isTiered && getTierProgress ? `${getTierProgress.earnedAP}/${totalPoints}` : totalPoints} <span className="ml-1 text-xs">AP</span>
+                  {(isTiered || points.repeatable) && progress ? `${points.earned}/${totalPoints}` : totalPoints}
+                  <span className="ml-1 text-xs">{points.repeatable && points.max === null ? 'AP / repeat' : 'AP'}</span>
                 </span>
               </div>
               <a 
@@ -1327,6 +1718,83 @@ const AchievementCard = ({
             })()}
           </div>
 
+          {/* Collection Checklist */}
+          {achievement.bits && achievement.bits.length > 0 && (() => {
+            const bits = achievement.bits;
+            const doneBits = new Set(progress?.bits || []);
+            const isBitDone = (index: number) => !!progress?.done || doneBits.has(index);
+            const doneCount = bits.filter((_, index) => isBitDone(index)).length;
+
+            const getBitLabel = (bit: AchievementBit): string => {
+              switch (bit.type) {
+                case 'Item':
+                  return bit.item?.name || `Item #${bit.id}`;
+                case 'Skin':
+                  return bit.skin?.name || `Skin #${bit.id}`;
+                case 'Minipet':
+                  return bit.mini?.name || `Miniature #${bit.id}`;
+                default:
+                  return bit.text || '';
+              }
+            };
+
+            return (
+              <div className="mt-3 border-t border-slate-700 pt-3">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowChecklist(!showChecklist);
+                  }}
+                  className="w-full flex items-center justify-between text-sm text-slate-400 hover:text-slate-200 transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <ListChecks size={16} />
+                    <span>Checklist ({doneCount}/{bits.length})</span>
+                  </div>
+                  {showChecklist ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                </button>
+
+                {showChecklist && (
+                  <ul className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+                    {bits.map((bit, index) => {
+                      const done = isBitDone(index);
+                      const label = getBitLabel(bit);
+                      return (
+                        <li
+                          key={index}
+                          className={`flex items-center gap-2 text-xs ${done ? 'text-green-400' : 'text-slate-300'}`}
+                        >
+                          {done ? (
+                            <CheckCircle2 size={14} className="flex-shrink-0" />
+                          ) : (
+                            <Circle size={14} className="flex-shrink-0 text-slate-600" />
+                          )}
+                          {(() => {
+                            const icon = bit.item?.icon || bit.skin?.icon || bit.mini?.icon;
+                            return icon && <img src={icon} alt={label} className="w-4 h-4 object-cover" />;
+                          })()}
+                          {bit.type === 'Item' && bit.item ? (
+                            <ItemTooltip item={bit.item}>
+                              <span className={`cursor-help ${done ? 'line-through opacity-70' : ''}`}>{label}</span>
+                            </ItemTooltip>
+                          ) : (
+                            <span className={done ? 'line-through opacity-70' : ''}>{label}</span>
+                          )}
+                          {bit.type !== 'Text' && bit.type !== 'Item' && (
+                            <span className="text-[10px] text-slate-500">
+                              {bit.type === 'Minipet' ? 'Miniature' : bit.skin?.type ? `${bit.skin.type} skin` : bit.type}
+                              {(bit.skin?.rarity || bit.mini?.rarity) && ` · ${bit.skin?.rarity || bit.mini?.rarity}`}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            );
+          })()}
+
           {/* Achievement Chain */}
           {((achievement.prerequisites && achievement.prerequisites.length > 0) || (unlocksMap && unlocksMap[achievement.id] && unlocksMap[achievement.id].length > 0)) && (() => {
             // Quick calculation of chain length for button label
@@ -1460,53 +1928,15 @@ const AchievementChain = ({
   unlocks: number[];
   achievementsCache: Record<number, Achievement>;
   userProgress: Record<number, UserProgress>;
-  accountAccess: string[];
+  accountAccess: string[] | null;
   isAchievementLocked?: (achievement: Achievement) => boolean;
   onNavigateToAchievement?: (achievementId: number) => void;
   achievementToCategoryMap?: Record<number, number>;
   onNeedAchievements?: (ids: number[]) => void;
   unlocksMap?: Record<number, number[]>;
 }) => {
-  // Map mastery region names to account access names
-  const regionToAccessMap: Record<string, string> = {
-    'Tyria': 'GuildWars2',
-    'Maguuma': 'HeartOfThorns',
-    'Desert': 'PathOfFire',
-    'Tundra': 'IcebroodSaga',
-    'Jade': 'EndOfDragons',
-    'Sky': 'SecretsOfTheObscure',
-    'Wild': 'JanthirWilds',
-    'Magic': 'VisionsOfEternity'
-  };
-
-  const checkIsLocked = (ach: Achievement): boolean => {
-    if (!isAchievementLocked) {
-      // Fallback check if function not provided
-      if (ach.prerequisites && ach.prerequisites.length > 0) {
-        const allPrerequisitesMet = ach.prerequisites.every(prereqId => {
-          const prereqProgress = userProgress[prereqId];
-          return prereqProgress && (prereqProgress.done || (prereqProgress.repeated && prereqProgress.repeated > 0));
-        });
-        if (!allPrerequisitesMet) return true;
-      }
-      
-      if (ach.rewards && ach.rewards.length > 0) {
-        const masteryRewards = ach.rewards.filter(r => r.type === 'Mastery' && r.region);
-        if (masteryRewards.length > 0) {
-          for (const reward of masteryRewards) {
-            if (reward.region) {
-              const requiredAccess = regionToAccessMap[reward.region];
-              if (requiredAccess && !accountAccess.includes(requiredAccess)) {
-                return true;
-              }
-            }
-          }
-        }
-      }
-      return false;
-    }
-    return isAchievementLocked(ach);
-  };
+  const checkIsLocked = (ach: Achievement): boolean =>
+    isAchievementLocked ? isAchievementLocked(ach) : isAchievementLockedFor(ach, userProgress, accountAccess);
 
   // Build complete chain: collect all prerequisites and unlocks recursively
   const collectAllPrerequisites = (achId: number, visited: Set<number>): Set<number> => {
@@ -2050,7 +2480,14 @@ const UserSettings = ({
   advancedView,
   setAdvancedView,
   categories,
-  groups
+  groups,
+  keyReport,
+  keyError,
+  accounts,
+  activeAccountId,
+  onSwitchAccount,
+  onAddAccount,
+  onRemoveAccount
 }: { 
   apiKey: string; 
   setApiKey: (key: string) => void; 
@@ -2068,6 +2505,13 @@ const UserSettings = ({
   setAdvancedView?: (value: boolean) => void;
   categories?: Record<string, AchievementCategory[]>;
   groups?: AchievementGroup[];
+  keyReport?: KeyPermissionReport | null;
+  keyError?: string | null;
+  accounts: SavedAccount[];
+  activeAccountId: string | null;
+  onSwitchAccount: (id: string) => void;
+  onAddAccount: (key: string) => void;
+  onRemoveAccount: (id: string) => void;
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [tempKey, setTempKey] = useState(apiKey);
@@ -2083,6 +2527,16 @@ const UserSettings = ({
     setIsOpen(false);
   };
 
+  const handleAddAccount = () => {
+    onAddAccount(tempKey);
+    setIsOpen(false);
+  };
+
+  // Show the key of whichever account is active after a switch
+  useEffect(() => {
+    setTempKey(apiKey);
+  }, [apiKey]);
+
   // Helper to get category icon for an achievement
   const getCategoryIcon = (achievementId: number): string | null => {
     if (!achievementToCategoryMap || !categories) return null;
@@ -2254,7 +2708,17 @@ const UserSettings = ({
   return (
     <div className="bg-slate-800 border-b border-slate-700 p-4 flex justify-between items-center sticky top-0 z-10 shadow-md h-16">
       <div className="flex items-center gap-3">
-        {apiKey ? (
+        {apiKey && keyError ? (
+          <div className="flex items-center gap-2 text-red-400 bg-red-900/20 px-3 py-1 rounded-full border border-red-900/50">
+            <AlertCircle size={16} />
+            <span className="text-sm font-medium">API Key Problem</span>
+          </div>
+        ) : apiKey && keyReport && keyReport.missingRequired.length > 0 ? (
+          <div className="flex items-center gap-2 text-amber-400 bg-amber-900/20 px-3 py-1 rounded-full border border-amber-900/50">
+            <AlertCircle size={16} />
+            <span className="text-sm font-medium">Missing Permissions</span>
+          </div>
+        ) : apiKey ? (
           <div className="flex items-center gap-2 text-green-400 bg-green-900/20 px-3 py-1 rounded-full border border-green-900/50">
             <CheckCircle2 size={16} />
             <span className="text-sm font-medium">API Connected</span>
@@ -2265,6 +2729,20 @@ const UserSettings = ({
             <span className="text-sm font-medium">No API Key</span>
           </div>
         )}
+
+        {/* Account Switcher */}
+        {accounts.length > 1 && (
+          <select
+            value={activeAccountId ?? ''}
+            onChange={(e) => onSwitchAccount(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-amber-500"
+            title="Switch account"
+          >
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{accountLabel(account)}</option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Search Bar - Center */}
@@ -2466,6 +2944,44 @@ const UserSettings = ({
               Create one here
             </a>
           </p>
+
+          {/* Saved Accounts - each keeps its own key, starred path and cached progress */}
+          {accounts.length > 0 && (
+            <div className="mb-4 pb-4 border-b border-slate-700">
+              <div className="text-sm font-medium text-slate-200 mb-2">Saved Accounts</div>
+              <ul className="space-y-1">
+                {accounts.map(account => {
+                  const isActive = account.id === activeAccountId;
+                  return (
+                    <li key={account.id} className="flex items-center gap-2 text-xs">
+                      <span className={`flex-1 truncate ${isActive ? 'text-amber-400 font-medium' : 'text-slate-300'}`}>
+                        {accountLabel(account)}
+                      </span>
+                      <span className="text-slate-500">{account.starred.length} starred</span>
+                      {isActive ? (
+                        <span className="px-2 py-0.5 text-amber-400 bg-amber-900/20 rounded">Active</span>
+                      ) : (
+                        <button
+                          onClick={() => onSwitchAccount(account.id)}
+                          className="px-2 py-0.5 text-slate-200 bg-slate-700 hover:bg-slate-600 rounded transition-colors"
+                        >
+                          Switch
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onRemoveAccount(account.id)}
+                        className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded transition-colors"
+                        title="Remove account"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           <div className="flex items-center gap-2 mb-4">
             <input
               type="text"
@@ -2481,13 +2997,54 @@ const UserSettings = ({
                   setTempKey('');
                 }}
                 className="p-2 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded transition-colors"
-                title="Clear API Key"
+                title="Remove this account"
               >
                 <Trash2 size={18} />
               </button>
             )}
           </div>
 
+          {/* Key permissions, as reported by /v2/tokeninfo */}
+          {apiKey && (keyError || keyReport) && (
+            <div className="mb-4 pb-4 border-b border-slate-700">
+              <div className="text-sm font-medium text-slate-200 mb-2">
+                Key Permissions{keyReport?.name ? <span className="text-slate-400 font-normal"> ({keyReport.name})</span> : null}
+              </div>
+              {keyError ? (
+                <p className="text-xs text-red-400">{keyError}</p>
+              ) : keyReport && (
+                <>
+                  <ul className="space-y-1 mb-2">
+                    {KEY_PERMISSION_INFO.map(permission => {
+                      const present = keyReport.present.includes(permission.id);
+                      return (
+                        <li key={permission.id} className="flex items-start gap-2 text-xs">
+                          {present ? (
+                            <CheckCircle2 size={14} className="text-green-400 mt-0.5 shrink-0" />
+                          ) : (
+                            <AlertCircle size={14} className={`${permission.required ? 'text-red-400' : 'text-amber-400'} mt-0.5 shrink-0`} />
+                          )}
+                          <span className={present ? 'text-slate-300' : 'text-slate-400'}>
+                            <code>{permission.id}</code>{permission.required ? '' : ' (optional)'}: {permission.description}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  {keyReport.missing.length > 0 && (
+                    <p className="text-xs text-amber-300">
+                      {keyReport.missingRequired.length > 0
+                        ? `Progress cannot be synced without ${keyReport.missingRequired.join(' and ')}. `
+                        : ''}
+                      Permissions cannot be added to an existing key: create a new one with{' '}
+                      {KEY_PERMISSION_INFO.map(permission => permission.id).join(', ')} ticked and paste it above.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Advanced View Toggle */}
           {setAdvancedView !== undefined && (
             <div className="mb-4 pb-4 border-b border-slate-700">
@@ -2527,7 +3084,17 @@ const UserSettings = ({
             >
               Cancel
             </button>
-            <button 
+            {apiKey && (
+              <button
+                onClick={handleAddAccount}
+                disabled={!tempKey.trim() || tempKey.trim() === apiKey}
+                className="px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Save this key as another account and switch to it"
+              >
+                Add as New Account
+              </button>
+            )}
+            <button
               onClick={handleSave}
               className="px-3 py-1 text-sm bg-amber-600 hover:bg-amber-500 text-white rounded"
             >
@@ -2563,7 +3130,7 @@ const MyPath = ({
   userProgress: Record<number, UserProgress>;
   onNeedAchievements: (ids: number[]) => void;
   onToggleStar: (id: number) => void;
-  accountAccess: string[];
+  accountAccess: string[] | null;
   unlocksMap: Record<number, number[]>;
   isAchievementLocked: (achievement: Achievement) => boolean;
   onClearStarred: () => void;
@@ -2766,6 +3333,7 @@ const Dashboard = ({
   onNavigateToAchievement,
   onShowPlaystyleChart,
   apiKey,
+  keyReport,
   advancedView,
   highlightedAchievementId
 }: { 
@@ -2778,13 +3346,14 @@ const Dashboard = ({
   groups: AchievementGroup[];
   onToggleStar: (id: number) => void;
   starredAchievements: number[];
-  accountAccess: string[];
+  accountAccess: string[] | null;
   categories: Record<string, AchievementCategory[]>;
   unlocksMap: Record<number, number[]>;
   accountName?: string;
   onNavigateToAchievement?: (achievementId: number) => void;
   onShowPlaystyleChart?: () => void;
   apiKey: string;
+  keyReport?: KeyPermissionReport | null;
   advancedView?: boolean;
   highlightedAchievementId?: number | null;
 }) => {
@@ -2792,52 +3361,17 @@ const Dashboard = ({
   const progressList = Object.values(userProgress);
   const totalCompleted = progressList.filter(p => p.done).length;
 
-  // Map mastery region names to account access names
-  const regionToAccessMap: Record<string, string> = {
-    'Tyria': 'GuildWars2',
-    'Maguuma': 'HeartOfThorns',
-    'Desert': 'PathOfFire',
-    'Tundra': 'IcebroodSaga',
-    'Jade': 'EndOfDragons',
-    'Sky': 'SecretsOfTheObscure',
-    'Wild': 'JanthirWilds',
-    'Magic': 'VisionsOfEternity'
-  };
+  // AP earned and still obtainable across every loaded achievement
+  const accountPoints = useMemo(
+    () => (Object.keys(userProgress).length > 0 ? getAccountPoints(achievementsCache, userProgress) : null),
+    [achievementsCache, userProgress]
+  );
 
   // Check if an achievement is locked (mastery region or prerequisites)
-  const isAchievementLocked = useCallback((achievement: Achievement): boolean => {
-    // Check prerequisites first
-    if (achievement.prerequisites && achievement.prerequisites.length > 0) {
-      // Check if all prerequisites are completed
-      const allPrerequisitesMet = achievement.prerequisites.every(prereqId => {
-        const prereqProgress = userProgress[prereqId];
-        return prereqProgress && (prereqProgress.done || (prereqProgress.repeated && prereqProgress.repeated > 0));
-      });
-      
-      if (!allPrerequisitesMet) {
-        return true; // Locked - prerequisites not met
-      }
-    }
-    
-    // Check mastery region locks
-    if (achievement.rewards && achievement.rewards.length > 0) {
-      // Check if any reward is a Mastery Point with a region
-      const masteryRewards = achievement.rewards.filter(r => r.type === 'Mastery' && r.region);
-      if (masteryRewards.length > 0) {
-        // Check if player has access to the region
-        for (const reward of masteryRewards) {
-          if (reward.region) {
-            const requiredAccess = regionToAccessMap[reward.region];
-            if (requiredAccess && !accountAccess.includes(requiredAccess)) {
-              return true; // Locked - player doesn't have access
-            }
-          }
-        }
-      }
-    }
-    
-    return false; // Not locked
-  }, [accountAccess, userProgress]);
+  const isAchievementLocked = useCallback(
+    (achievement: Achievement): boolean => isAchievementLockedFor(achievement, userProgress, accountAccess),
+    [accountAccess, userProgress]
+  );
 
   // Build category to group map
   const catToGroupMap = useMemo(() => {
@@ -2851,98 +3385,11 @@ const Dashboard = ({
   }, [groups]);
 
   // Smart scoring function for achievement recommendations
-  // Considers: AP value, loot value, ease of completion, unlock potential, prerequisites status
-  const calculateAchievementScore = useCallback((progress: UserProgress, achievement: Achievement, unlocksMap: Record<number, number[]>): number => {
-    if (!achievement) return 0;
-    
-    let score = 0;
-    
-    // 1. AP Value (0-100 points, normalized)
-    const totalAP = achievement.tiers.reduce((acc, t) => acc + t.points, 0);
-    score += Math.min(100, totalAP * 0.5); // Max 200 AP = 100 points
-    
-    // 2. Loot Value (0-80 points)
-    if (achievement.rewards) {
-      let lootValue = 0;
-      achievement.rewards.forEach(reward => {
-        if (reward.type === 'Item' && reward.item) {
-          // Base value from vendor_value
-          const vendorValue = reward.item.vendor_value || 0;
-          lootValue += vendorValue * 0.001; // Convert copper to points (1000 copper = 1 point)
-          
-          // Rarity bonus
-          const rarityMultiplier: Record<string, number> = {
-            'Legendary': 50,
-            'Ascended': 30,
-            'Exotic': 15,
-            'Rare': 8,
-            'Masterwork': 4,
-            'Fine': 2,
-            'Basic': 1
-          };
-          if (reward.item.rarity) {
-            lootValue += rarityMultiplier[reward.item.rarity] || 0;
-          }
-          
-          // Special item bonuses (bags, mounts, etc.)
-          const itemName = reward.item.name.toLowerCase();
-          const itemType = reward.item.type?.toLowerCase() || '';
-          if (itemType === 'bag' || itemName.includes('bag')) {
-            const bagSize = reward.item.details?.size || 0;
-            if (bagSize >= 20) lootValue += 20;
-            else if (bagSize >= 15) lootValue += 10;
-          }
-          if (itemName.includes('mount') || itemName.includes('skyscale') || itemName.includes('griffon')) {
-            lootValue += 40;
-          }
-        } else if (reward.type === 'Mastery') {
-          lootValue += 25; // Mastery points are valuable
-        } else if (reward.type === 'Title') {
-          lootValue += 5; // Titles have some value
-        }
-      });
-      score += Math.min(80, lootValue);
-    }
-    
-    // 3. Ease of Completion (0-60 points)
-    // Higher progress = easier to complete
-    if (progress.current && progress.max) {
-      const progressPercent = (progress.current / progress.max) * 100;
-      score += Math.min(60, progressPercent * 0.6); // 100% progress = 60 points
-    } else {
-      // No progress yet - check if it's simple (few tiers, no prerequisites)
-      const tierCount = achievement.tiers.length;
-      const hasPrerequisites = achievement.prerequisites && achievement.prerequisites.length > 0;
-      if (!hasPrerequisites && tierCount <= 3) {
-        score += 20; // Simple achievements get a bonus
-      }
-    }
-    
-    // 4. Unlock Potential (0-50 points)
-    const unlocks = unlocksMap[achievement.id] || [];
-    score += Math.min(50, unlocks.length * 5); // Each unlock = 5 points, max 50
-    
-    // 5. Prerequisites Status (0-30 points)
-    // Bonus if all prerequisites are completed (ready to start)
-    if (achievement.prerequisites && achievement.prerequisites.length > 0) {
-      const allPrereqsMet = achievement.prerequisites.every(prereqId => {
-        const prereqProg = userProgress[prereqId];
-        return prereqProg && (prereqProg.done || (prereqProg.repeated && prereqProg.repeated > 0));
-      });
-      if (allPrereqsMet) {
-        score += 30; // Ready to start = bonus
-      }
-    } else {
-      score += 20; // No prerequisites = easier to start
-    }
-    
-    // 6. Meta Achievement Bonus (0-40 points)
-    if (achievement.flags.includes('CategoryDisplay')) {
-      score += 40; // Meta achievements are high value
-    }
-    
-    return score;
-  }, [userProgress, unlocksMap]);
+  const calculateAchievementScore = useCallback(
+    (progress: UserProgress, achievement: Achievement, unlocksMap: Record<number, number[]>): number =>
+      scoreAchievement(progress, achievement, unlocksMap, userProgress),
+    [userProgress]
+  );
 
   // Calculate Recommendations based on flavor
   const recommendations = useMemo(() => {
@@ -3181,7 +3628,7 @@ const Dashboard = ({
         <p className="text-slate-400">Track your Guild Wars 2 journey and find your next adventure.</p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
         <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex items-center gap-4">
           <div className="p-3 bg-green-900/30 text-green-400 rounded-full">
             <CheckCircle2 size={24} />
@@ -3200,6 +3647,24 @@ const Dashboard = ({
             <div className="text-xs text-slate-400 uppercase font-semibold">In Progress</div>
           </div>
         </div>
+        <div
+          className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex items-center gap-4"
+          title={accountPoints && accountPoints.uncappedRepeatables > 0
+            ? `Includes only the current repeat of ${accountPoints.uncappedRepeatables} uncapped repeatable achievement(s)`
+            : undefined}
+        >
+          <div className="p-3 bg-amber-900/30 text-amber-400 rounded-full">
+            <Crown size={24} />
+          </div>
+          <div>
+            <div className="text-2xl font-gw2-header text-slate-100">
+              {accountPoints ? accountPoints.remaining.toLocaleString() : '—'}
+            </div>
+            <div className="text-xs text-slate-400 uppercase font-semibold">
+              AP Obtainable{accountPoints ? ` · ${accountPoints.earned.toLocaleString()} earned` : ''}
+            </div>
+          </div>
+        </div>
         <button
           onClick={() => onShowPlaystyleChart?.()}
           className="bg-slate-800 p-4 rounded-lg border border-slate-700 flex items-center gap-4 hover:bg-slate-700 hover:border-slate-600 transition-colors cursor-pointer text-left w-full"
@@ -3434,9 +3899,13 @@ const Dashboard = ({
               return (
                 <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-6 text-center">
                   <p className="text-slate-400 mb-2">
-                    {!apiKey ? 'An API key is required to get recommendations!' : 'No recommendations found for this goal.'}
+                    {!apiKey
+                      ? 'An API key is required to get recommendations!'
+                      : keyReport && !keyReport.present.includes('progression')
+                        ? 'Your API key has no progression permission, so there is no progress to recommend from. See API Settings.'
+                        : 'No recommendations found for this goal.'}
                   </p>
-                  {apiKey && (
+                  {apiKey && (!keyReport || keyReport.present.includes('progression')) && (
                     <p className="text-sm text-slate-500 italic">
                       (Tip: Try a different goal or explore categories on the left!)
                     </p>
@@ -3452,27 +3921,745 @@ const Dashboard = ({
   );
 };
 
-// --- Main App Component ---
-
-export default function GW2Pathfinder() {
-  const [apiKey, setApiKey] = useState<string>(() => {
-      // Handle the key separately from the data cache
-      return localStorage.getItem('gw2_api_key') || '';
+// One account or API key in a comparison or squad
+interface AccountColumn {
+  id: string;
+  label: string;
+  apiKey: string;
+  progress: Record<number, UserProgress>;
+  access: string[] | null; // null when the key may not read expansion access
+  status: 'loading' | 'ready' | 'error';
+  error?: string;
+}
+
+// Progress loaded for a column, with the account name when the key may read it
+interface AccountColumnSnapshot extends Pick<AccountColumn, 'status' | 'error' | 'progress' | 'access'> {
+  name?: string;
+}
+
+interface ComparisonStats {
+  done: number;
+  ap: number;
+}
+
+// Finished at least once, counting repeats
+const isAchievementDone = (progress?: UserProgress) => !!progress && (progress.done || (!!progress.repeated && progress.repeated > 0));
+
+// Saved accounts and extra keys picked for a comparison or squad, with each one's progress.
+// The active account's progress is already synced; everyone else's is fetched once per visit.
+const useAccountColumns = (
+  accounts: SavedAccount[],
+  activeAccountId: string | null,
+  activeProgress: Record<number, UserProgress>,
+  activeAccess: string[] | null,
+  limit = Infinity
+) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => accounts.slice(0, limit).map(account => account.id));
+  // Keys used without saving them as accounts
+  const [extraKeys, setExtraKeys] = useState<string[]>([]);
+  const [snapshots, setSnapshots] = useState<Record<string, AccountColumnSnapshot>>({});
+  const requested = useRef(new Set<string>());
+
+  const participants = useMemo(() => [
+    ...accounts
+      .filter(account => selectedIds.includes(account.id))
+      .map(account => ({ id: account.id, label: accountLabel(account), apiKey: account.apiKey })),
+    ...extraKeys.map(key => ({ id: `key:${key}`, label: `Key ending ${key.slice(-4)}`, apiKey: key })),
+  ], [accounts, selectedIds, extraKeys]);
+
+  useEffect(() => {
+    participants.forEach(participant => {
+      if (participant.id === activeAccountId || requested.current.has(participant.id)) return;
+      requested.current.add(participant.id);
+      fetchAccountSnapshot(participant.apiKey)
+        .then(snapshot => {
+          setSnapshots(prev => ({
+            ...prev,
+            [participant.id]: !snapshot
+              ? { status: 'error', error: 'Key rejected', progress: {}, access: null }
+              : !snapshot.report.present.includes('progression')
+                ? { status: 'error', error: 'No progression permission', name: snapshot.name, progress: {}, access: snapshot.access }
+                : { status: 'ready', name: snapshot.name, progress: snapshot.progress, access: snapshot.access },
+          }));
+        })
+        .catch(err => {
+          console.error("Failed to load account progress", err);
+          requested.current.delete(participant.id);
+          setSnapshots(prev => ({ ...prev, [participant.id]: { status: 'error', error: 'Could not load progress', progress: {}, access: null } }));
+        });
+    });
+  }, [participants, activeAccountId]);
+
+  const columns: AccountColumn[] = useMemo(() => participants.map(participant => {
+    if (participant.id === activeAccountId) {
+      return { ...participant, progress: activeProgress, access: activeAccess, status: 'ready' as const };
+    }
+    const snapshot = snapshots[participant.id];
+    if (!snapshot) {
+      // Show what was cached at the last sync while the fresh progress loads
+      const cached = CacheManager.get<AccountProgressCache>(accountCacheKey(participant.id));
+      return { ...participant, progress: cached?.progress || {}, access: cached?.access ?? null, status: 'loading' as const };
+    }
+    return { ...participant, ...snapshot, label: snapshot.name || participant.label };
+  }), [participants, activeAccountId, activeProgress, activeAccess, snapshots]);
+
+  return { columns, selectedIds, setSelectedIds, extraKeys, setExtraKeys };
+};
+
+// Toggle saved accounts on and off, and add keys that are not saved
+const AccountPicker = ({
+  accounts,
+  selectedIds,
+  setSelectedIds,
+  extraKeys,
+  setExtraKeys,
+  limit = Infinity
+}: {
+  accounts: SavedAccount[];
+  selectedIds: string[];
+  setSelectedIds: React.Dispatch<React.SetStateAction<string[]>>;
+  extraKeys: string[];
+  setExtraKeys: React.Dispatch<React.SetStateAction<string[]>>;
+  limit?: number;
+}) => {
+  const [newKey, setNewKey] = useState('');
+  const isFull = selectedIds.length + extraKeys.length >= limit;
+
+  const handleAddKey = () => {
+    const key = newKey.trim();
+    if (!key || isFull) return;
+    const saved = accounts.find(account => account.apiKey === key);
+    if (saved) {
+      setSelectedIds(prev => (prev.includes(saved.id) ? prev : [...prev, saved.id]));
+    } else if (!extraKeys.includes(key)) {
+      setExtraKeys(prev => [...prev, key]);
+    }
+    setNewKey('');
+  };
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 mb-6">
+      <div className="text-sm font-medium text-slate-200 mb-2">
+        Accounts{Number.isFinite(limit) ? <span className="text-slate-400 font-normal"> (up to {limit})</span> : null}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {accounts.map(account => {
+          const selected = selectedIds.includes(account.id);
+          return (
+            <button
+              key={account.id}
+              onClick={() => setSelectedIds(prev => (selected ? prev.filter(id => id !== account.id) : [...prev, account.id]))}
+              disabled={!selected && isFull}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                selected
+                  ? 'bg-amber-600 border-amber-500 text-white'
+                  : 'bg-slate-900 border-slate-700 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {accountLabel(account)}
+            </button>
+          );
+        })}
+        {extraKeys.map(key => (
+          <span key={key} className="px-3 py-1 text-sm rounded-full border bg-amber-600 border-amber-500 text-white flex items-center gap-1">
+            Key ending {key.slice(-4)}
+            <button
+              onClick={() => setExtraKeys(prev => prev.filter(k => k !== key))}
+              className="hover:text-slate-200"
+              title="Remove key"
+            >
+              <X size={14} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newKey}
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddKey();
+          }}
+          placeholder="Add another API key (not saved)"
+          className="flex-1 bg-slate-900 border border-slate-700 rounded p-2 text-sm text-slate-200 focus:outline-none focus:border-amber-500"
+        />
+        <button
+          onClick={handleAddKey}
+          disabled={!newKey.trim() || isFull}
+          className="px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 rounded disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Key
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Compare the progress of two or more saved accounts or API keys, group by group and category
+const AccountComparison = ({
+  accounts,
+  activeAccountId,
+  activeProgress,
+  activeAccess,
+  achievementsCache,
+  groups,
+  categories,
+  onNavigateToAchievement
+}: {
+  accounts: SavedAccount[];
+  activeAccountId: string | null;
+  activeProgress: Record<number, UserProgress>;
+  activeAccess: string[] | null;
+  achievementsCache: Record<number, Achievement>;
+  groups: AchievementGroup[];
+  categories: Record<string, AchievementCategory[]>;
+  onNavigateToAchievement?: (achievementId: number) => void;
+}) => {
+  const { columns, selectedIds, setSelectedIds, extraKeys, setExtraKeys } =
+    useAccountColumns(accounts, activeAccountId, activeProgress, activeAccess);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [expandedCategory, setExpandedCategory] = useState<number | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  // Per group and category: each column's completed count and AP, and the achievements
+  // that some columns have finished and others have not
+  const comparison = useMemo(() => {
+    const compared = columns.filter(column => column.status !== 'error');
+    return [...groups]
+      .sort((a, b) => a.order - b.order)
+      .map(group => {
+        const groupCategories = [...(categories[group.id] || [])]
+          .sort((a, b) => a.order - b.order)
+          .map(category => {
+            const ids = (category.achievements || []).filter(id => {
+              const achievement = achievementsCache[id];
+              return achievement && !shouldFilterAchievement(achievement);
+            });
+            const stats: ComparisonStats[] = columns.map(column => ids.reduce((acc, id) => ({
+              done: acc.done + (isAchievementDone(column.progress[id]) ? 1 : 0),
+              ap: acc.ap + getAchievementPoints(achievementsCache[id], column.progress[id]).earned,
+            }), { done: 0, ap: 0 }));
+            const differences = ids.filter(id => {
+              const finished = compared.filter(column => isAchievementDone(column.progress[id])).length;
+              return finished > 0 && finished < compared.length;
+            });
+            return { category, total: ids.length, stats, differences };
+          })
+          .filter(entry => entry.total > 0);
+
+        const stats: ComparisonStats[] = columns.map((_, index) => groupCategories.reduce((acc, entry) => ({
+          done: acc.done + entry.stats[index].done,
+          ap: acc.ap + entry.stats[index].ap,
+        }), { done: 0, ap: 0 }));
+        return {
+          group,
+          categories: groupCategories,
+          total: groupCategories.reduce((acc, entry) => acc + entry.total, 0),
+          stats,
+          differenceCount: groupCategories.reduce((acc, entry) => acc + entry.differences.length, 0),
+        };
+      })
+      .filter(entry => entry.categories.length > 0);
+  }, [columns, groups, categories, achievementsCache]);
+
+  const totals = useMemo(() => {
+    const compared = columns.filter(column => column.status !== 'error');
+    const allIds = comparison.flatMap(entry => entry.categories.flatMap(c => c.differences));
+    return columns.map((column, index) => ({
+      done: comparison.reduce((acc, entry) => acc + entry.stats[index].done, 0),
+      ap: comparison.reduce((acc, entry) => acc + entry.stats[index].ap, 0),
+      // Achievements this column has finished that at least one other has not
+      ahead: column.status === 'error' ? 0 : new Set(allIds.filter(id =>
+        isAchievementDone(column.progress[id]) && compared.some(other => !isAchievementDone(other.progress[id]))
+      )).size,
+    }));
+  }, [columns, comparison]);
+
+  const toggleGroup = (groupId: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
+  // AP of each column relative to whoever is furthest ahead
+  const renderStats = (stats: ComparisonStats[], total: number) => {
+    const bestAp = Math.max(...stats.filter((_, index) => columns[index].status !== 'error').map(s => s.ap));
+    return stats.map((s, index) => columns[index].status === 'error' ? (
+      <div key={columns[index].id} className="text-right text-xs text-slate-600">—</div>
+    ) : (
+      <div key={columns[index].id} className="text-right text-xs">
+        <div className="text-slate-300">{s.done}/{total}</div>
+        <div className={s.ap === bestAp ? 'text-amber-400' : 'text-slate-400'}>
+          {s.ap.toLocaleString()} AP
+          {s.ap < bestAp && <span className="text-red-400"> ({(s.ap - bestAp).toLocaleString()})</span>}
+        </div>
+      </div>
+    ));
+  };
+
+  const gridStyle = { gridTemplateColumns: `minmax(12rem, 1fr) repeat(${columns.length}, minmax(7rem, 9rem))` };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-3xl font-gw2-header text-slate-100 flex items-center gap-3 mb-2">
+          <Users className="text-amber-500" size={32} />
+          Compare Accounts
+        </h2>
+        <p className="text-slate-400">See who has finished what, group by group, to plan what to do together.</p>
+      </div>
+
+      <AccountPicker
+        accounts={accounts}
+        selectedIds={selectedIds}
+        setSelectedIds={setSelectedIds}
+        extraKeys={extraKeys}
+        setExtraKeys={setExtraKeys}
+      />
+
+      {columns.length < 2 ? (
+        <div className="text-center py-12 bg-slate-800/50 rounded-lg border border-slate-700 border-dashed">
+          <Users className="mx-auto text-slate-600 mb-4" size={48} />
+          <p className="text-slate-400">Pick at least two accounts or API keys to compare.</p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            {columns.map((column, index) => (
+              <div key={column.id} className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+                <div className="font-gw2-subheader text-slate-100 truncate mb-1">{column.label}</div>
+                {column.status === 'error' ? (
+                  <p className="text-xs text-red-400">{column.error}</p>
+                ) : (
+                  <div className="text-xs text-slate-400 space-y-0.5">
+                    <div><span className="text-slate-200">{totals[index].done.toLocaleString()}</span> completed</div>
+                    <div><span className="text-amber-400">{totals[index].ap.toLocaleString()}</span> AP</div>
+                    <div><span className="text-green-400">{totals[index].ahead.toLocaleString()}</span> finished that others have not</div>
+                    {column.status === 'loading' && <div className="text-slate-500 animate-pulse">Loading progress...</div>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-400 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+              className="accent-amber-600"
+            />
+            Only show groups and categories with differences
+          </label>
+
+          {/* Groups and Categories */}
+          <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-x-auto">
+            <div className="grid gap-3 px-4 py-2 border-b border-slate-700 text-xs text-slate-400 uppercase font-semibold" style={gridStyle}>
+              <div>Group / Category</div>
+              {columns.map(column => (
+                <div key={column.id} className="text-right truncate" title={column.label}>{column.label}</div>
+              ))}
+            </div>
+
+            {comparison
+              .filter(entry => !onlyDifferences || entry.differenceCount > 0)
+              .map(entry => {
+                const expanded = expandedGroups.has(entry.group.id);
+                return (
+                  <div key={entry.group.id} className="border-b border-slate-700/50 last:border-b-0">
+                    <button
+                      onClick={() => toggleGroup(entry.group.id)}
+                      className="w-full grid gap-3 px-4 py-2 items-center text-left hover:bg-slate-700/50 transition-colors"
+                      style={gridStyle}
+                    >
+                      <div className="flex items-center gap-2 text-sm text-slate-200 min-w-0">
+                        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                        <span className="truncate">{entry.group.name}</span>
+                        {entry.differenceCount > 0 && (
+                          <span className="text-[10px] text-amber-400 bg-amber-900/20 px-1.5 py-0.5 rounded flex-shrink-0">
+                            {entry.differenceCount} different
+                          </span>
+                        )}
+                      </div>
+                      {renderStats(entry.stats, entry.total)}
+                    </button>
+
+                    {expanded && entry.categories
+                      .filter(categoryEntry => !onlyDifferences || categoryEntry.differences.length > 0)
+                      .map(categoryEntry => {
+                        const categoryExpanded = expandedCategory === categoryEntry.category.id;
+                        return (
+                          <div key={categoryEntry.category.id} className="bg-slate-900/40">
+                            <button
+                              onClick={() => setExpandedCategory(categoryExpanded ? null : categoryEntry.category.id)}
+                              className="w-full grid gap-3 pl-10 pr-4 py-2 items-center text-left hover:bg-slate-700/30 transition-colors"
+                              style={gridStyle}
+                            >
+                              <div className="flex items-center gap-2 text-sm text-slate-300 min-w-0">
+                                {categoryEntry.category.icon && (
+                                  <img src={categoryEntry.category.icon} alt="" className="w-5 h-5 rounded flex-shrink-0" />
+                                )}
+                                <span className="truncate">{categoryEntry.category.name}</span>
+                                {categoryEntry.differences.length > 0 && (
+                                  <span className="text-[10px] text-amber-400 flex-shrink-0">{categoryEntry.differences.length} different</span>
+                                )}
+                              </div>
+                              {renderStats(categoryEntry.stats, categoryEntry.total)}
+                            </button>
+
+                            {/* Achievements finished by some accounts but not others */}
+                            {categoryExpanded && (
+                              <div className="pl-16 pr-4 pb-2">
+                                {categoryEntry.differences.length === 0 ? (
+                                  <p className="text-xs text-slate-500 italic py-1">Everyone is at the same point here.</p>
+                                ) : categoryEntry.differences.map(id => (
+                                  <div key={id} className="grid gap-3 py-1 items-center" style={gridStyle}>
+                                    <button
+                                      onClick={() => onNavigateToAchievement?.(id)}
+                                      className="text-xs text-slate-300 hover:text-amber-400 text-left truncate"
+                                      title={achievementsCache[id].requirement || achievementsCache[id].description}
+                                    >
+                                      {achievementsCache[id].name}
+                                    </button>
+                                    {columns.map(column => (
+                                      <div key={column.id} className="flex justify-end">
+                                        {column.status === 'error' ? (
+                                          <span className="text-xs text-slate-600">—</span>
+                                        ) : isAchievementDone(column.progress[id]) ? (
+                                          <CheckCircle2 size={14} className="text-green-400" />
+                                        ) : (
+                                          <X size={14} className="text-slate-500" />
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                  </div>
+                );
+              })}
+
+            {comparison.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-6 animate-pulse">Loading achievements...</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Squad planner limits
+const SQUAD_LIMIT = 10;
+const PLAN_LENGTH = 25;
+const SUMMARY_LENGTH = 10;
+
+// Where one squad member stands on an achievement
+interface MemberStatus {
+  state: 'done' | 'locked' | 'needs';
+  score: number;
+  ap: number; // AP still open to the member
+}
+
+interface PlanEntry {
+  achievement: Achievement;
+  statuses: MemberStatus[];
+  needCount: number;
+  score: number;
+  ap: number; // most AP still open to any member who needs it
+}
+
+// Rank achievements that most of a squad still needs. Each member gets the Dashboard's lock
+// checks and recommendation score from their own progress; an achievement's squad score is the
+// sum of its members' scores over the squad size, so it grows with how many members get credit.
+const PartyPlanner = ({
+  accounts,
+  activeAccountId,
+  activeProgress,
+  activeAccess,
+  achievementsCache,
+  unlocksMap,
+  achievementToCategoryMap,
+  categories,
+  onNavigateToAchievement
+}: {
+  accounts: SavedAccount[];
+  activeAccountId: string | null;
+  activeProgress: Record<number, UserProgress>;
+  activeAccess: string[] | null;
+  achievementsCache: Record<number, Achievement>;
+  unlocksMap: Record<number, number[]>;
+  achievementToCategoryMap: Record<number, number>;
+  categories: Record<string, AchievementCategory[]>;
+  onNavigateToAchievement?: (achievementId: number) => void;
+}) => {
+  const { columns, selectedIds, setSelectedIds, extraKeys, setExtraKeys } =
+    useAccountColumns(accounts, activeAccountId, activeProgress, activeAccess, SQUAD_LIMIT);
+  // Fewest members who must still need an achievement for it to be planned; null means a majority
+  const [minMembers, setMinMembers] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Members join the plan once their progress has loaded; until then they would seem to need everything
+  const members = useMemo(() => columns.filter(column => column.status === 'ready'), [columns]);
+  const required = Math.max(1, Math.min(members.length, minMembers ?? Math.ceil(members.length / 2)));
+
+  const categoryNames = useMemo(() => {
+    const names: Record<number, string> = {};
+    Object.values(categories).flat().forEach(category => {
+      names[category.id] = category.name;
+    });
+    return names;
+  }, [categories]);
+
+  const plan: PlanEntry[] = useMemo(() => {
+    if (members.length < 2) return [];
+    return Object.values(achievementsCache)
+      .filter(achievement => !shouldFilterAchievement(achievement))
+      .map(achievement => {
+        const statuses: MemberStatus[] = members.map(member => {
+          const progress = member.progress[achievement.id];
+          if (isAchievementDone(progress)) return { state: 'done', score: 0, ap: 0 };
+          if (isAchievementLockedFor(achievement, member.progress, member.access)) return { state: 'locked', score: 0, ap: 0 };
+          return {
+            state: 'needs',
+            score: scoreAchievement(progress || { id: achievement.id, done: false }, achievement, unlocksMap, member.progress),
+            ap: getAchievementPoints(achievement, progress).remaining,
+          };
+        });
+        return {
+          achievement,
+          statuses,
+          needCount: statuses.filter(status => status.state === 'needs').length,
+          score: statuses.reduce((acc, status) => acc + status.score, 0) / members.length,
+          ap: Math.max(...statuses.map(status => status.ap)),
+        };
+      })
+      .filter(entry => entry.needCount >= required)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, PLAN_LENGTH);
+  }, [members, required, achievementsCache, unlocksMap]);
+
+  // Plain text for pasting into chat
+  const summary = useMemo(() => {
+    if (plan.length === 0) return '';
+    const lines = plan.slice(0, SUMMARY_LENGTH).map((entry, index) => {
+      const category = categoryNames[achievementToCategoryMap[entry.achievement.id]];
+      const missing = members.filter((_, i) => entry.statuses[i].state !== 'needs').map(member => member.label);
+      const who = missing.length === 0
+        ? `all ${members.length} need it`
+        : `${entry.needCount}/${members.length} need it (not ${missing.join(', ')})`;
+      return `${index + 1}. ${entry.achievement.name}${category ? ` [${category}]` : ''} - ${entry.ap} AP left - ${who}`;
+    });
+    return [`Squad plan for ${members.map(member => member.label).join(', ')}:`, ...lines].join('\n');
+  }, [plan, members, categoryNames, achievementToCategoryMap]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(summary)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.error("Failed to copy plan", err));
+  };
+
+  const loadingCount = columns.filter(column => column.status === 'loading').length;
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-8">
+        <h2 className="text-3xl font-gw2-header text-slate-100 flex items-center gap-3 mb-2">
+          <Flag className="text-amber-500" size={32} />
+          Squad Planner
+        </h2>
+        <p className="text-slate-400">Find achievements most of your squad still needs, so everyone gets credit on the night.</p>
+      </div>
+
+      <AccountPicker
+        accounts={accounts}
+        selectedIds={selectedIds}
+        setSelectedIds={setSelectedIds}
+        extraKeys={extraKeys}
+        setExtraKeys={setExtraKeys}
+        limit={SQUAD_LIMIT}
+      />
+
+      {/* Members whose progress could not be loaded are left out of the plan */}
+      {columns.some(column => column.status === 'error') && (
+        <div className="mb-6 space-y-1">
+          {columns.filter(column => column.status === 'error').map(column => (
+            <p key={column.id} className="text-xs text-red-400 flex items-center gap-2">
+              <AlertCircle size={14} />
+              {column.label}: {column.error}. Left out of the plan.
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Without expansion access, region-locked achievements are not ruled out for a member */}
+      {columns.some(column => column.status === 'ready' && !column.access) && (
+        <div className="mb-6 space-y-1">
+          {columns.filter(column => column.status === 'ready' && !column.access).map(column => (
+            <p key={column.id} className="text-xs text-slate-500 flex items-center gap-2">
+              <Lock size={14} />
+              {column.label}: expansion access unknown (key lacks the account permission). Expansion-locked achievements are not ruled out.
+            </p>
+          ))}
+        </div>
+      )}
+
+      {members.length < 2 ? (
+        <div className="text-center py-12 bg-slate-800/50 rounded-lg border border-slate-700 border-dashed">
+          <Flag className="mx-auto text-slate-600 mb-4" size={48} />
+          <p className="text-slate-400">
+            {loadingCount > 0 ? 'Loading progress...' : 'Pick at least two accounts or API keys to plan for.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              Needed by at least
+              <select
+                value={required}
+                onChange={(e) => setMinMembers(Number(e.target.value))}
+                className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-amber-500"
+              >
+                {members.map((_, index) => (
+                  <option key={index + 1} value={index + 1}>{index + 1}</option>
+                ))}
+              </select>
+              of {members.length} members
+            </label>
+            {loadingCount > 0 && (
+              <span className="text-xs text-slate-500 animate-pulse">Loading progress for {loadingCount} more member(s)...</span>
+            )}
+          </div>
+
+          {/* Shared Plan */}
+          <div className="bg-slate-800 rounded-lg border border-slate-700 overflow-x-auto mb-6">
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-700 text-xs text-slate-400 uppercase font-semibold">
+              <div className="flex-1">Achievement</div>
+              <div className="w-20 text-right">Needed by</div>
+              <div className="w-16 text-right" title="Most AP still open to a member who needs it">AP left</div>
+            </div>
+            {plan.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">
+                {Object.keys(achievementsCache).length === 0
+                  ? 'Loading achievements...'
+                  : 'Nothing left that enough of the squad still needs. Try a lower threshold.'}
+              </p>
+            ) : plan.map((entry, index) => {
+              const category = categoryNames[achievementToCategoryMap[entry.achievement.id]];
+              return (
+                <div key={entry.achievement.id} className="flex items-center gap-3 px-4 py-2 border-b border-slate-700/50 last:border-b-0">
+                  <span className="w-6 text-xs text-slate-500 text-right flex-shrink-0">{index + 1}.</span>
+                  <div className="flex-1 min-w-0">
+                    <button
+                      onClick={() => onNavigateToAchievement?.(entry.achievement.id)}
+                      className="text-sm text-slate-200 hover:text-amber-400 text-left truncate block max-w-full"
+                      title={entry.achievement.requirement || entry.achievement.description}
+                    >
+                      {entry.achievement.name}
+                    </button>
+                    <div className="flex flex-wrap items-center gap-2 mt-1">
+                      {category && <span className="text-[10px] text-slate-500">{category}</span>}
+                      {members.map((member, i) => {
+                        const state = entry.statuses[i].state;
+                        return (
+                          <span
+                            key={member.id}
+                            className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${
+                              state === 'needs'
+                                ? 'text-amber-400 bg-amber-900/20'
+                                : state === 'done'
+                                  ? 'text-green-400 bg-green-900/20'
+                                  : 'text-slate-500 bg-slate-900/50'
+                            }`}
+                            title={state === 'needs' ? 'Still needs it' : state === 'done' ? 'Already finished' : 'Locked (prerequisites or expansion access)'}
+                          >
+                            {state === 'needs' ? <Circle size={10} /> : state === 'done' ? <CheckCircle2 size={10} /> : <Lock size={10} />}
+                            {member.label}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <div className="w-20 text-right text-sm text-slate-300 flex-shrink-0">{entry.needCount}/{members.length}</div>
+                  <div className="w-16 text-right text-sm text-amber-400 flex-shrink-0">{entry.ap}</div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Chat Summary */}
+          {summary && (
+            <div className="bg-slate-800 p-4 rounded-lg border border-slate-700">
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-sm font-medium text-slate-200">Summary for chat</div>
+                <button
+                  onClick={handleCopy}
+                  disabled={loadingCount > 0}
+                  className="px-3 py-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 rounded transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={loadingCount > 0 ? 'Wait until every member has loaded' : undefined}
+                >
+                  <Copy size={14} />
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <textarea
+                readOnly
+                value={summary}
+                rows={Math.min(12, summary.split('\n').length)}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-xs text-slate-300 font-mono focus:outline-none focus:border-amber-500 resize-none"
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- Main App Component ---
+
+export default function GW2Pathfinder() {
+  // Saved accounts and the one in use. The key, name, starred list and progress below belong to it.
+  const [accounts, setAccounts] = useState<SavedAccount[]>(loadSavedAccounts);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(() => {
+    const stored = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+    return accounts.find(a => a.id === stored)?.id ?? accounts[0]?.id ?? null;
   });
-  
+  const activeAccount = accounts.find(a => a.id === activeAccountId);
+
+  const [apiKey, setApiKey] = useState<string>(() => activeAccount?.apiKey || '');
+
   const [groups, setGroups] = useState<AchievementGroup[]>([]);
   const [categories, setCategories] = useState<Record<string, AchievementCategory[]>>({});
   const [achievements, setAchievements] = useState<Record<number, Achievement>>({});
-  const [userProgress, setUserProgress] = useState<Record<number, UserProgress>>({});
-  const [accountAccess, setAccountAccess] = useState<string[]>([]);
-  const [accountName, setAccountName] = useState<string | undefined>(() => {
-    // Load account name from localStorage on initial load
-    try {
-      return localStorage.getItem('gw2_account_name') || undefined;
-    } catch (e) {
-      return undefined;
-    }
-  });
+  // Start from the active account's cached progress until it has been synced again
+  const [userProgress, setUserProgress] = useState<Record<number, UserProgress>>(() =>
+    (activeAccountId && CacheManager.get<AccountProgressCache>(accountCacheKey(activeAccountId))?.progress) || {}
+  );
+  // Null until the key's expansion access is known
+  const [accountAccess, setAccountAccess] = useState<string[] | null>(() =>
+    activeAccountId ? CacheManager.get<AccountProgressCache>(accountCacheKey(activeAccountId))?.access ?? null : null
+  );
+  const [keyReport, setKeyReport] = useState<KeyPermissionReport | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [accountName, setAccountName] = useState<string | undefined>(() => activeAccount?.name);
   const [unlocksMap, setUnlocksMap] = useState<Record<number, number[]>>({});
   const [advancedView, setAdvancedView] = useState<boolean>(() => {
     // Load advanced view preference from localStorage
@@ -3486,7 +4673,7 @@ export default function GW2Pathfinder() {
   const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
   const [currentCategoryDetails, setCurrentCategoryDetails] = useState<AchievementCategory | null>(null);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'mypath' | 'category'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'mypath' | 'compare' | 'squad' | 'category'>('dashboard');
   const [highlightedAchievementId, setHighlightedAchievementId] = useState<number | null>(null);
   
   const [loadingGroups, setLoadingGroups] = useState(true);
@@ -3507,7 +4694,9 @@ export default function GW2Pathfinder() {
   
   // Starred Achievements (ordered array for drag-and-drop reordering)
   const [starredAchievements, setStarredAchievements] = useState<number[]>(() => {
+    if (activeAccount) return activeAccount.starred;
     try {
+      // Without a saved account the list is kept on its own
       const stored = localStorage.getItem('gw2_starred_achievements');
       if (stored) {
         return JSON.parse(stored);
@@ -3517,7 +4706,40 @@ export default function GW2Pathfinder() {
     }
     return [];
   });
-  
+
+  // The key a sync was started for is compared with this to drop results for an account switched away from
+  const apiKeyRef = useRef(apiKey);
+  apiKeyRef.current = apiKey;
+
+  // Keep the active account's entry in step with its key, name and starred list
+  useEffect(() => {
+    if (!activeAccountId) {
+      try {
+        localStorage.setItem('gw2_starred_achievements', JSON.stringify(starredAchievements));
+      } catch (e) {
+        console.warn("Failed to save starred achievements", e);
+      }
+      return;
+    }
+    setAccounts(prev => prev.map(account =>
+      account.id === activeAccountId
+        ? { ...account, apiKey, name: accountName, starred: starredAchievements }
+        : account
+    ));
+  }, [activeAccountId, apiKey, accountName, starredAchievements]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+      if (activeAccountId) {
+        localStorage.setItem(ACTIVE_ACCOUNT_KEY, activeAccountId);
+      } else {
+        localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+      }
+    } catch (e) {
+      console.warn("Failed to save accounts", e);
+    }
+  }, [accounts, activeAccountId]);
 
   // 1. Initial Load: Groups
   useEffect(() => {
@@ -3705,40 +4927,48 @@ export default function GW2Pathfinder() {
     fetchAchievementsForCategory();
   }, [selectedCategory, categories, achievements]); // Added 'achievements' back to check if data is already loaded
 
-  // 4. User Progress Sync (still uses GW2 API directly)
+  // 4. User Progress Sync. The key's permissions are checked first; data it may not read is
+  // skipped, not treated as an error.
   const syncUserProgress = useCallback(async () => {
     if (!apiKey) return;
+    // Results for an account that was switched away from mid-sync are dropped
+    const isStale = () => apiKeyRef.current !== apiKey;
     setRefreshingProgress(true);
     try {
-      // Fetch account info for access checking and name
-      const accountData = await fetchWithBackoff(`${GW2_API_BASE}/account?access_token=${apiKey}`);
-      setAccountAccess(accountData.access || []);
-      
-      // Extract account name from account data
-      const name = accountData.name || undefined;
-      setAccountName(name);
-      // Persist account name to localStorage
-      if (name) {
-        localStorage.setItem('gw2_account_name', name);
-      } else {
-        localStorage.removeItem('gw2_account_name');
+      const snapshot = await fetchAccountSnapshot(apiKey);
+      if (isStale()) return;
+      // Data from an earlier key must not be shown next to this key's status, so anything this
+      // key cannot read is cleared (the snapshot leaves it empty)
+      if (!snapshot) {
+        setKeyReport(null);
+        setKeyError('The GW2 API did not accept this key. Check that it was copied in full, or create a new one.');
+        setUserProgress({});
+        setAccountAccess(null);
+        return;
+      }
+
+      setKeyReport(snapshot.report);
+      setKeyError(null);
+      // Access is used for lock checks; the name is saved with the account
+      setAccountAccess(snapshot.access);
+      setAccountName(snapshot.name);
+      setUserProgress(snapshot.progress);
+
+      // Cache progress with the account, so switching back to it shows something straight away
+      if (activeAccountId) {
+        CacheManager.set<AccountProgressCache>(accountCacheKey(activeAccountId), {
+          progress: snapshot.progress,
+          access: snapshot.access,
+        });
       }
-      
-      // Fetch user progress
-      const data = await fetchWithBackoff(`${GW2_API_BASE}/account/achievements?access_token=${apiKey}`);
-      const progressMap = data.reduce((acc: any, p: UserProgress) => {
-        acc[p.id] = p;
-        return acc;
-      }, {});
-      setUserProgress(progressMap);
-      localStorage.setItem('gw2_api_key', apiKey);
     } catch (e) {
+      if (isStale()) return;
       console.error("Failed to fetch user progress", e);
-      alert("Failed to sync progress. Check your API Key.");
+      setKeyError('Could not sync progress right now. Try again in a moment.');
     } finally {
-      setRefreshingProgress(false);
+      if (!isStale()) setRefreshingProgress(false);
     }
-  }, [apiKey]);
+  }, [apiKey, activeAccountId]);
 
   useEffect(() => {
     if (apiKey) {
@@ -3815,7 +5045,8 @@ export default function GW2Pathfinder() {
           if (!achievement) return;
 
           // Calculate weight: AP value * progress percentage
-          const totalAP = achievement.tiers.reduce((acc, t) => acc + t.points, 0);
+          const points = getAchievementPoints(achievement, p);
+          const totalAP = points.max ?? points.earned + points.remaining;
           let progressWeight = 1.0;
           
           if (p.done || (p.repeated && p.repeated > 0)) {
@@ -3928,52 +5159,11 @@ export default function GW2Pathfinder() {
 
   }, [userProgress, achievementToCategoryMap, groups, achievements]);
 
-  // Map mastery region names to account access names
-  const regionToAccessMap: Record<string, string> = {
-    'Tyria': 'GuildWars2',
-    'Maguuma': 'HeartOfThorns',
-    'Desert': 'PathOfFire',
-    'Tundra': 'IcebroodSaga',
-    'Jade': 'EndOfDragons',
-    'Sky': 'SecretsOfTheObscure',
-    'Wild': 'JanthirWilds',
-    'Magic': 'VisionsOfEternity'
-  };
-
   // Check if an achievement is locked (mastery region or prerequisites)
-  const isAchievementLocked = useCallback((achievement: Achievement): boolean => {
-    // Check prerequisites first
-    if (achievement.prerequisites && achievement.prerequisites.length > 0) {
-      // Check if all prerequisites are completed
-      const allPrerequisitesMet = achievement.prerequisites.every(prereqId => {
-        const prereqProgress = userProgress[prereqId];
-        return prereqProgress && (prereqProgress.done || (prereqProgress.repeated && prereqProgress.repeated > 0));
-      });
-      
-      if (!allPrerequisitesMet) {
-        return true; // Locked - prerequisites not met
-      }
-    }
-    
-    // Check mastery region locks
-    if (achievement.rewards && achievement.rewards.length > 0) {
-      // Check if any reward is a Mastery Point with a region
-      const masteryRewards = achievement.rewards.filter(r => r.type === 'Mastery' && r.region);
-      if (masteryRewards.length > 0) {
-        // Check if player has access to the region
-        for (const reward of masteryRewards) {
-          if (reward.region) {
-            const requiredAccess = regionToAccessMap[reward.region];
-            if (requiredAccess && !accountAccess.includes(requiredAccess)) {
-              return true; // Locked - player doesn't have access
-            }
-          }
-        }
-      }
-    }
-    
-    return false; // Not locked
-  }, [accountAccess, userProgress]);
+  const isAchievementLocked = useCallback(
+    (achievement: Achievement): boolean => isAchievementLockedFor(achievement, userProgress, accountAccess),
+    [accountAccess, userProgress]
+  );
 
   // Helper to check if an achievement needs item data refresh
   const needsItemDataRefresh = useCallback((ach: Achievement): boolean => {
@@ -4046,27 +5236,76 @@ export default function GW2Pathfinder() {
     }
   }, [achievements, needsItemDataRefresh, needsTitleDataRefresh, fetchSpecificAchievements]);
 
-  const handleClearApiKey = useCallback(() => {
-    setApiKey('');
-    localStorage.removeItem('gw2_api_key');
-    localStorage.removeItem('gw2_account_name');
-    setUserProgress({});
-    setAccountAccess([]);
-    setAccountName(undefined);
+  // Load an account's key, starred list and cached progress (or clear them all without one).
+  // The key change starts a sync, and playstyle is recomputed from the progress it loads.
+  const switchToAccount = useCallback((account: SavedAccount | undefined) => {
+    const cached = account ? CacheManager.get<AccountProgressCache>(accountCacheKey(account.id)) : null;
+    setActiveAccountId(account?.id ?? null);
+    setApiKey(account?.apiKey || '');
+    setAccountName(account?.name);
+    setStarredAchievements(account?.starred || []);
+    setUserProgress(cached?.progress || {});
+    setAccountAccess(cached?.access ?? null);
+    setKeyReport(null);
+    setKeyError(null);
+    setRefreshingProgress(false);
   }, []);
 
+  const handleSwitchAccount = useCallback((id: string) => {
+    if (id === activeAccountId) return;
+    switchToAccount(accounts.find(account => account.id === id));
+  }, [accounts, activeAccountId, switchToAccount]);
+
+  const handleAddAccount = useCallback((key: string) => {
+    const trimmed = key.trim();
+    if (!trimmed) return;
+    const existing = accounts.find(account => account.apiKey === trimmed);
+    if (existing) {
+      handleSwitchAccount(existing.id);
+      return;
+    }
+    // The first account takes over anything starred before a key was saved
+    const account: SavedAccount = {
+      id: newAccountId(),
+      apiKey: trimmed,
+      starred: accounts.length === 0 ? starredAchievements : [],
+    };
+    setAccounts(prev => [...prev, account]);
+    switchToAccount(account);
+  }, [accounts, starredAchievements, handleSwitchAccount, switchToAccount]);
+
+  // Saving a key replaces the active account's key, unless it belongs to another saved
+  // account (which is switched to) or no account is saved yet
+  const handleSaveApiKey = useCallback((key: string) => {
+    const trimmed = key.trim();
+    if (activeAccountId && trimmed && !accounts.some(account => account.apiKey === trimmed)) {
+      setApiKey(trimmed);
+    } else {
+      handleAddAccount(trimmed);
+    }
+  }, [accounts, activeAccountId, handleAddAccount]);
+
+  const handleRemoveAccount = useCallback((id: string) => {
+    const remaining = accounts.filter(account => account.id !== id);
+    CacheManager.remove(accountCacheKey(id));
+    setAccounts(remaining);
+    if (id === activeAccountId) {
+      switchToAccount(remaining[0]);
+    }
+  }, [accounts, activeAccountId, switchToAccount]);
+
+  const handleClearApiKey = useCallback(() => {
+    if (activeAccountId) {
+      handleRemoveAccount(activeAccountId);
+    }
+  }, [activeAccountId, handleRemoveAccount]);
+
   const handleClearStarred = useCallback(() => {
     setStarredAchievements([]);
-    localStorage.removeItem('gw2_starred_achievements');
   }, []);
 
   const handleReorderAchievements = useCallback((newOrder: number[]) => {
     setStarredAchievements(newOrder);
-    try {
-      localStorage.setItem('gw2_starred_achievements', JSON.stringify(newOrder));
-    } catch (e) {
-      console.warn("Failed to save reordered achievements", e);
-    }
   }, []);
 
   // Helper function to get all prerequisites recursively and sort them topologically
@@ -4138,13 +5377,7 @@ export default function GW2Pathfinder() {
         // Add the achievement itself at the end
         newArray.push(id);
       }
-      
-      // Persist to localStorage
-      try {
-        localStorage.setItem('gw2_starred_achievements', JSON.stringify(newArray));
-      } catch (e) {
-        console.warn("Failed to save starred achievements", e);
-      }
+
       return newArray;
     });
   }, [achievements, userProgress, getPrerequisitesInOrder, achievementToCategoryMap, categories]);
@@ -4161,6 +5394,18 @@ export default function GW2Pathfinder() {
     setCurrentView('mypath');
   };
 
+  const handleGoToCompare = () => {
+    setSelectedCategory(null);
+    setSelectedGroup(null);
+    setCurrentView('compare');
+  };
+
+  const handleGoToSquad = () => {
+    setSelectedCategory(null);
+    setSelectedGroup(null);
+    setCurrentView('squad');
+  };
+
   const handleSelectCategory = (id: number) => {
     setSelectedCategory(id);
     setCurrentView('category');
@@ -4229,6 +5474,37 @@ export default function GW2Pathfinder() {
       );
     }
 
+    if (currentView === 'compare') {
+      return (
+        <AccountComparison
+          accounts={accounts}
+          activeAccountId={activeAccountId}
+          activeProgress={userProgress}
+          activeAccess={accountAccess}
+          achievementsCache={achievements}
+          groups={groups}
+          categories={categories}
+          onNavigateToAchievement={handleNavigateToAchievement}
+        />
+      );
+    }
+
+    if (currentView === 'squad') {
+      return (
+        <PartyPlanner
+          accounts={accounts}
+          activeAccountId={activeAccountId}
+          activeProgress={userProgress}
+          activeAccess={accountAccess}
+          achievementsCache={achievements}
+          unlocksMap={unlocksMap}
+          achievementToCategoryMap={achievementToCategoryMap}
+          categories={categories}
+          onNavigateToAchievement={handleNavigateToAchievement}
+        />
+      );
+    }
+
     if (currentView === 'dashboard') {
       return (
         <Dashboard 
@@ -4248,6 +5524,7 @@ export default function GW2Pathfinder() {
           onNavigateToAchievement={handleNavigateToAchievement}
           onShowPlaystyleChart={() => setShowPlaystyleChart(true)}
           apiKey={apiKey}
+          keyReport={keyReport}
           advancedView={advancedView}
           highlightedAchievementId={highlightedAchievementId}
         />
@@ -4273,6 +5550,7 @@ export default function GW2Pathfinder() {
           onNavigateToAchievement={handleNavigateToAchievement}
           onShowPlaystyleChart={() => setShowPlaystyleChart(true)}
           apiKey={apiKey}
+          keyReport={keyReport}
           advancedView={advancedView}
           highlightedAchievementId={highlightedAchievementId}
         />
@@ -4364,6 +5642,8 @@ export default function GW2Pathfinder() {
         onSelectCategory={handleSelectCategory}
         onGoHome={handleGoHome}
         onGoToMyPath={handleGoToMyPath}
+        onGoToCompare={handleGoToCompare}
+        onGoToSquad={handleGoToSquad}
         currentView={currentView}
         isLoadingGroups={loadingGroups}
         userProgress={userProgress}
@@ -4373,7 +5653,7 @@ export default function GW2Pathfinder() {
       <div className="flex-1 flex flex-col min-w-0 overflow-hidden relative">
         <UserSettings 
           apiKey={apiKey} 
-          setApiKey={setApiKey} 
+          setApiKey={handleSaveApiKey} 
           onRefresh={syncUserProgress}
           isRefreshing={refreshingProgress}
           onClearApiKey={handleClearApiKey}
@@ -4388,6 +5668,13 @@ export default function GW2Pathfinder() {
           setAdvancedView={setAdvancedView}
           categories={categories}
           groups={groups}
+          keyReport={keyReport}
+          keyError={keyError}
+          accounts={accounts}
+          activeAccountId={activeAccountId}
+          onSwitchAccount={handleSwitchAccount}
+          onAddAccount={handleAddAccount}
+          onRemoveAccount={handleRemoveAccount}
         />
         
         <main className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-slate-900">